@@ -24,6 +24,7 @@ interface UserProfile {
     xp: number
     level: number
   }
+  ratings?: { [gameType: string]: number }
   preferences: {
     gameMode: string
     notifications: boolean
@@ -1,127 +1,108 @@
 // backend/games/base-game.js
 import { createClient } from 'redis';
+import { DEFAULT_RATING } from '../utils/ratings.js';
+import { createClock } from '../utils/clocks.js';
+import { queueScripts } from '../utils/queue-scripts.js';
+import { sessionScripts } from '../utils/session-scripts.js';
+import { sessionKeyForRoom } from '../utils/rooms.js';
+import { INVITE_CODE_TTL_SECONDS } from '../utils/invite-codes.js';
 
 const redis = createClient({ url: 'redis://localhost:6379' });
 redis.connect().catch(console.error);
 
+// Rating-aware matchmaking: a player accepts opponents within +/- their search window,
+// which starts narrow and widens the longer they wait.
+const MATCH_WINDOW_BASE = 100;
+const MATCH_WINDOW_GROWTH_PER_SECOND = 10;
+const MATCH_WINDOW_MAX = 1000;
+const RECENT_WAITS_TRACKED = 20;
+// Times to re-pick a group when another request claimed one of its players first
+const MATCH_CLAIM_ATTEMPTS = 3;
+// A session lock expires on its own if its holder dies; waiting requests give up after SESSION_LOCK_WAIT_MS
+const SESSION_LOCK_TTL_MS = 10000;
+const SESSION_LOCK_WAIT_MS = 5000;
+const SESSION_LOCK_RETRY_MS = 20;
+// How long a queue entry stays without the searching client asking for its status
+const QUEUE_LEASE_SECONDS = 30;
+// Sessions and the user mappings pointing at them expire unless written again within these
+// windows, so rooms nobody cleaned up (crash, restart) don't stay in Redis forever
+const ACTIVE_SESSION_TTL_SECONDS = 2 * 60 * 60;
+const FINISHED_SESSION_TTL_SECONDS = 15 * 60;
+
 export class BaseGame {
   constructor(gameType) {
     this.gameType = gameType;
-    this.queueKey = `${gameType}:queue`;
+    // Hash of userId -> queue entry; see utils/queue-scripts.js
+    this.queueKey = `${gameType}:queued`;
+    this.queueLeasesKey = `${gameType}:queue-leases`;
     this.sessionPrefix = `${gameType}:session:`;
     this.redis = null;
   }
 
+  // Connects once; concurrent first calls share the same pending connection
   async getRedis() {
     if (!this.redis) {
-      const { createClient } = await import('redis');
-      this.redis = createClient({ url: 'redis://localhost:6379' });
-      await this.redis.connect();
+      this.redis = (async () => {
+        const { createClient } = await import('redis');
+        const client = createClient({ url: 'redis://localhost:6379', scripts: { ...queueScripts, ...sessionScripts } });
+        await client.connect();
+        return client;
+      })();
+      // Let the next call retry if this connection attempt fails
+      this.redis.catch(() => {
+        this.redis = null;
+      });
     }
-    return this.redis;
+    return await this.redis;
   }
 
   // Common matchmaking logic
-  async handleMatchmaking(userId, username) {
+  async handleMatchmaking(userId, username, rating = DEFAULT_RATING) {
     const redis = await this.getRedis();
-    // HARD RESET: Remove user from queue if present and delete their session mapping
-    const queue = await redis.lRange(this.queueKey, 0, -1);
-    for (let i = 0; i < queue.length; i++) {
-      const player = JSON.parse(queue[i]);
-      if (player.userId === userId) {
-        await redis.lRem(this.queueKey, 1, queue[i]);
-        console.log(`[HARD RESET] Removed ${userId} from queue`);
-        break;
-      }
-    }
-    
-    // IMPROVED CLEANUP: Handle both active and finished sessions
-    const cleanupUserSessionKey = `user:${userId}:session`;
-    const cleanupExistingSessionId = await redis.get(cleanupUserSessionKey);
-    if (cleanupExistingSessionId) {
-      // Check if the session is a result screen that should be preserved
-      const gameTypes = ['tictactoe', 'connect-four']; // Add more as needed
-      let shouldCleanup = true;
-      let isFinishedGame = false;
-      
-      for (const gameType of gameTypes) {
-        const sessionKey = `${gameType}:session:${cleanupExistingSessionId}`;
-        const sessionData = await redis.get(sessionKey);
-        if (sessionData) {
-          const session = JSON.parse(sessionData);
-          // Check if this is a finished game (result screen)
-          if (session.status === 'finished' || session.gameState?.winner) {
-            isFinishedGame = true;
-            // For finished games, we should clean up the user mapping but preserve the session
-            // so other players can still view the result screen
-            console.log(`[FORFEIT CLEANUP] User ${userId} leaving finished game ${cleanupExistingSessionId}, cleaning up user mapping`);
-            shouldCleanup = false; // Don't delete the session, just the user mapping
-            break;
-          }
-        }
-      }
-      
-      if (shouldCleanup) {
-        console.log(`[AGGRESSIVE CLEANUP] Found existing session ${cleanupExistingSessionId} for user ${userId}, clearing it`);
-        await redis.del(cleanupUserSessionKey);
-        
-        // Also try to clean up the session data if it exists
-        for (const gameType of gameTypes) {
-          const sessionKey = `${gameType}:session:${cleanupExistingSessionId}`;
-          const sessionExists = await redis.exists(sessionKey);
-          if (sessionExists) {
-            console.log(`[AGGRESSIVE CLEANUP] Found and deleting session ${cleanupExistingSessionId} for game ${gameType}`);
-            await redis.del(sessionKey);
-            break;
-          }
-        }
-      } else {
-        // For finished games, just remove the user mapping but preserve the session
-        console.log(`[FORFEIT CLEANUP] Removing user mapping but preserving session ${cleanupExistingSessionId} for other players`);
-        await redis.del(cleanupUserSessionKey);
-      }
+    // Joining again restarts the search, e.g. after the lobby was reloaded mid-search
+    if (await this.removeFromQueue(userId)) {
+      console.log(`Removed ${userId} from ${this.gameType} queue to queue them again`);
     }
-    
-    console.log(`[HARD RESET] Deleted user-to-session mapping for user:${userId}:session`);
 
-    // Defensive: Check if user is already in a session, and if the session actually exists and is valid
+    // A player still seated in a running game goes back to it instead of queueing for another.
+    // Any other mapping (finished game, closed or expired room) no longer holds them; the
+    // room itself is left to its result screen, its TTL and the janitor.
     const userSessionKey = `user:${userId}:session`;
-    const existingSessionId = await redis.get(userSessionKey);
-    if (existingSessionId) {
-      const sessionExists = await redis.exists(`${this.sessionPrefix}${existingSessionId}`);
-      if (sessionExists) {
-        // Check if the session is still valid (not finished/cleaned up)
-        const sessionData = await redis.get(`${this.sessionPrefix}${existingSessionId}`);
-        if (sessionData) {
-          const session = JSON.parse(sessionData);
-          // Only return existing session if it's active (not finished)
-          if (session.status === 'active' && !session.gameState?.winner) {
-            console.log(`User ${userId} already in active session ${existingSessionId}`);
-            return { matched: true, roomId: existingSessionId };
-          } else {
-            // Session is finished, clean it up
-            console.log(`Cleaning up finished session ${existingSessionId} for user ${userId}`);
-            await redis.del(`${this.sessionPrefix}${existingSessionId}`);
-            await redis.del(userSessionKey);
-          }
-        } else {
-          // Session data is corrupted, clean up
-          await redis.del(userSessionKey);
-          console.log(`Cleaned up corrupted session mapping for user ${userId}`);
-        }
-      } else {
-        // Clean up stale mapping
-        await redis.del(userSessionKey);
-        console.log(`Cleaned up stale session mapping for user ${userId}`);
+    const existingRoomId = await redis.get(userSessionKey);
+    if (existingRoomId) {
+      const sessionData = await redis.get(sessionKeyForRoom(existingRoomId));
+      const session = sessionData ? JSON.parse(sessionData) : null;
+      if (session?.status === 'active' && session.seats?.some((seat) => seat.userId === userId)) {
+        console.log(`User ${userId} already in active session ${existingRoomId}`);
+        return { matched: true, roomId: existingRoomId };
       }
+      await redis.del(userSessionKey);
+      console.log(`Released ${userId} from ${session ? `${session.status} room` : 'missing room'} ${existingRoomId}`);
     }
 
-    // Add user to the matchmaking queue
-    await redis.rPush(this.queueKey, JSON.stringify({ userId, username }));
-    console.log(`Added ${username} (${userId}) to ${this.gameType} queue`);
+    // Add user to the matchmaking queue. A request racing this one for the same user may have
+    // queued them already, or seated them in a room since the checks above.
+    const entry = JSON.stringify({ userId, username, rating, joinedAt: Date.now() });
+    const [joinStatus, roomId] = await redis.joinQueue(
+      this.queueKey,
+      this.queueLeasesKey,
+      userSessionKey,
+      userId,
+      entry,
+      Date.now() + QUEUE_LEASE_SECONDS * 1000
+    );
+    if (joinStatus === 'in-session') {
+      console.log(`User ${userId} was matched into ${roomId} while joining`);
+      return { matched: true, roomId };
+    }
+    if (joinStatus === 'queued') {
+      console.log(`${username} (${userId}) is already in the ${this.gameType} queue`);
+    } else {
+      console.log(`Added ${username} (${userId}) to ${this.gameType} queue`);
+    }
 
     // Check queue length
-    const queueLength = await redis.lLen(this.queueKey);
+    const queueLength = await this.getQueueLength();
     console.log(`${this.gameType} queue length after adding ${username}: ${queueLength}`);
 
     // Try to match players (implemented by subclasses)
@@ -132,14 +113,8 @@ export class BaseGame {
   async cancelMatchmaking(userId) {
     const redis = await this.getRedis();
     // Remove user from queue
-    const queue = await redis.lRange(this.queueKey, 0, -1);
-    for (let i = 0; i < queue.length; i++) {
-      const player = JSON.parse(queue[i]);
-      if (player.userId === userId) {
-        await redis.lRem(this.queueKey, 1, queue[i]);
-        console.log(`Removed ${player.username} from ${this.gameType} queue`);
-        break;
-      }
+    if (await this.removeFromQueue(userId)) {
+      console.log(`Removed ${userId} from ${this.gameType} queue`);
     }
     // Remove session mapping if exists
     await redis.del(`user:${userId}:session`);
@@ -154,10 +129,52 @@ export class BaseGame {
     return sessionData ? JSON.parse(sessionData) : null;
   }
 
+  // Every write bumps session.version, which clients send back with their moves so the server
+  // can turn away a move made against a board that has changed since. Write sessions you read
+  // inside withSessionLock() so no other request changes them in between.
+  // Writing also renews the TTL of the session and, while it is still being played, of its
+  // players' mappings. A finished game leaves them alone: a rematch may have moved them on already.
   async updateSession(roomId, sessionData) {
     const redis = await this.getRedis();
     const sessionKey = `${this.sessionPrefix}${roomId}`;
-    await redis.set(sessionKey, JSON.stringify(sessionData));
+    const ttlSeconds = this.getSessionTtlSeconds(sessionData);
+    sessionData.version = (sessionData.version ?? 0) + 1;
+    sessionData.updatedAt = Date.now();
+    const transaction = redis.multi().set(sessionKey, JSON.stringify(sessionData), { EX: ttlSeconds });
+    if (sessionData.status !== 'finished') {
+      for (const seat of sessionData.seats || []) {
+        transaction.expire(`user:${seat.userId}:session`, ttlSeconds);
+      }
+    }
+    await transaction.exec();
+  }
+
+  // How long a session may go without being written before Redis drops it
+  getSessionTtlSeconds(session) {
+    if (session.status === 'waiting') return INVITE_CODE_TTL_SECONDS;
+    if (session.status === 'finished') return FINISHED_SESSION_TTL_SECONDS;
+    return ACTIVE_SESSION_TTL_SECONDS;
+  }
+
+  // Runs fn while holding the room's lock, so reading, changing and writing a session is never
+  // interleaved with another request or server process doing the same. Not reentrant: code
+  // running under the lock must not ask for it again.
+  async withSessionLock(roomId, fn) {
+    const redis = await this.getRedis();
+    const lockKey = `${this.gameType}:lock:${roomId}`;
+    const token = Math.random().toString(36).substr(2, 9);
+    const giveUpAt = Date.now() + SESSION_LOCK_WAIT_MS;
+    while (!await redis.set(lockKey, token, { NX: true, PX: SESSION_LOCK_TTL_MS })) {
+      if (Date.now() > giveUpAt) {
+        throw new Error(`Timed out waiting for the lock on ${roomId}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, SESSION_LOCK_RETRY_MS));
+    }
+    try {
+      return await fn();
+    } finally {
+      await redis.releaseLock(lockKey, token);
+    }
   }
 
   async deleteSession(roomId) {
@@ -174,7 +191,7 @@ export class BaseGame {
 
   async setUserSession(userId, roomId) {
     const redis = await this.getRedis();
-    await redis.set(`user:${userId}:session`, roomId);
+    await redis.set(`user:${userId}:session`, roomId, { EX: ACTIVE_SESSION_TTL_SECONDS });
   }
 
   async deleteUserSession(userId) {
@@ -185,58 +202,355 @@ export class BaseGame {
   // Get queue length
   async getQueueLength() {
     const redis = await this.getRedis();
-    return await redis.lLen(this.queueKey);
+    return await redis.zCount(this.queueLeasesKey, Date.now(), '+inf');
   }
 
-  // Pop from queue
-  async popFromQueue() {
+  // Queue entries in join order, leaving out those whose lease has run out
+  async getQueuedPlayers() {
     const redis = await this.getRedis();
-    return await redis.lPop(this.queueKey);
+    const live = new Set(await redis.zRangeByScore(this.queueLeasesKey, Date.now(), '+inf'));
+    return (await redis.hVals(this.queueKey))
+      .map((raw) => JSON.parse(raw))
+      .filter((player) => live.has(player.userId))
+      .sort((a, b) => (a.joinedAt ?? 0) - (b.joinedAt ?? 0));
   }
 
-  // Add to queue
-  async addToQueue(player) {
+  // Remove a user's queue entry. Returns whether they were queued.
+  async removeFromQueue(userId) {
     const redis = await this.getRedis();
-    return await redis.rPush(this.queueKey, JSON.stringify(player));
+    return await redis.leaveQueue(this.queueKey, this.queueLeasesKey, userId) === 1;
   }
 
-  // Create a new match
-  async createMatch(players) {
+  // Drop queue entries whose lease ran out (the searching tab was closed). Returns their user ids.
+  async expireQueueEntries() {
     const redis = await this.getRedis();
-    const roomId = `${this.gameType}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    console.log(`🔧 Creating match with room ID: ${roomId} for game type: ${this.gameType}`);
-    
-    // Create initial game state
-    const gameState = this.createInitialGameState(players);
-    
-    // Transform players array to the expected format for renderers
-    // Convert from [{userId, username}, {userId, username}] to {userId: {name: username}, userId2: {name: username2}}
+    return await redis.expireQueueEntries(this.queueKey, this.queueLeasesKey, Date.now());
+  }
+
+  // Acceptable rating gap for a player who has waited waitMs
+  getSearchWindow(waitMs) {
+    const window = MATCH_WINDOW_BASE + Math.floor(waitMs / 1000) * MATCH_WINDOW_GROWTH_PER_SECOND;
+    return Math.min(window, MATCH_WINDOW_MAX);
+  }
+
+  // Starts a match for between minCount and maxCount queued players whose ratings fit inside each
+  // other's search windows, longest-waiting first. A group smaller than maxCount only starts once its
+  // longest-waiting player has waited getFillWaitSeconds(), giving the match a chance to fill.
+  // The players leave the queue and the room is created in one atomic step, so a player claimed by
+  // a concurrent request is never matched twice. Returns { matched: false } if no group fits yet.
+  async matchQueuedPlayers(minCount, maxCount = minCount) {
+    const redis = await this.getRedis();
+    for (let attempt = 0; attempt < MATCH_CLAIM_ATTEMPTS; attempt++) {
+      const group = await this.findMatchedPlayers(minCount, maxCount);
+      if (!group) {
+        return { matched: false };
+      }
+
+      const players = group.map((entry) => entry.player);
+      const session = this.buildMatchSession(players);
+      const userIds = players.map((player) => player.userId);
+      const claimed = await redis.claimMatch(
+        this.queueKey,
+        this.queueLeasesKey,
+        `${this.sessionPrefix}${session.roomId}`,
+        session.roomId,
+        session,
+        this.getSessionTtlSeconds(session),
+        userIds
+      );
+      if (claimed === 1) {
+        const now = Date.now();
+        await this.recordWaitTimes(players.map((player) => now - (player.joinedAt ?? now)));
+        console.log(`Matched ${group.map((entry) => `${entry.player.username} (${entry.rating})`).join(', ')} in ${this.gameType} room ${session.roomId}`);
+        return { matched: true, roomId: session.roomId };
+      }
+      console.log(`Lost ${this.gameType} match for ${userIds.join(', ')} to a concurrent request, retrying`);
+    }
+    return { matched: false };
+  }
+
+  // Picks the group matchQueuedPlayers() will try to claim from a snapshot of the queue, or null
+  async findMatchedPlayers(minCount, maxCount) {
+    const now = Date.now();
+    const fillWaitMs = this.getFillWaitSeconds() * 1000;
+    const entries = (await this.getQueuedPlayers()).map((player) => {
+      const rating = player.rating ?? DEFAULT_RATING;
+      const window = this.getSearchWindow(now - (player.joinedAt ?? now));
+      return { player, rating, window };
+    });
+
+    for (const anchor of entries) {
+      const candidates = entries
+        .filter((other) => other !== anchor)
+        .map((other) => ({ other, gap: Math.abs(other.rating - anchor.rating) }))
+        .filter(({ other, gap }) => gap <= anchor.window && gap <= other.window)
+        .sort((a, b) => a.gap - b.gap);
+
+      const groupSize = Math.min(maxCount, candidates.length + 1);
+      const anchorWaitMs = now - (anchor.player.joinedAt ?? now);
+      if (groupSize >= minCount && (groupSize === maxCount || anchorWaitMs >= fillWaitMs)) {
+        return [anchor, ...candidates.slice(0, groupSize - 1).map(({ other }) => other)];
+      }
+    }
+    return null;
+  }
+
+  async recordWaitTimes(waitTimes) {
+    const redis = await this.getRedis();
+    const key = `${this.gameType}:recent-waits`;
+    for (const waitMs of waitTimes) {
+      await redis.lPush(key, String(waitMs));
+    }
+    await redis.lTrim(key, 0, RECENT_WAITS_TRACKED - 1);
+  }
+
+  // Search progress for a queued player, shown in the lobby while searching.
+  // The lobby polls this while searching, which is what keeps the player's queue lease alive.
+  async getQueueStatus(userId) {
+    const redis = await this.getRedis();
+    const queue = await this.getQueuedPlayers();
+    const position = queue.findIndex((player) => player.userId === userId);
+    if (position === -1) {
+      return { queued: false };
+    }
+    await redis.zAdd(
+      this.queueLeasesKey,
+      { score: Date.now() + QUEUE_LEASE_SECONDS * 1000, value: userId },
+      { condition: 'XX' }
+    );
+
+    const player = queue[position];
+    const rating = player.rating ?? DEFAULT_RATING;
+    const waitMs = Date.now() - (player.joinedAt ?? Date.now());
+    const window = this.getSearchWindow(waitMs);
+
+    const recentWaits = (await redis.lRange(`${this.gameType}:recent-waits`, 0, -1)).map(Number);
+    const averageWaitMs = recentWaits.length
+      ? recentWaits.reduce((sum, wait) => sum + wait, 0) / recentWaits.length
+      : null;
+
+    return {
+      queued: true,
+      position: position + 1,
+      queueLength: queue.length,
+      rating,
+      waitSeconds: Math.floor(waitMs / 1000),
+      searchWindow: { min: rating - window, max: rating + window },
+      estimatedWaitSeconds: averageWaitMs === null ? null : Math.max(0, Math.round((averageWaitMs - waitMs) / 1000)),
+    };
+  }
+
+  generateRoomId() {
+    return `${this.gameType}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Transform players array to the expected format for renderers
+  // Convert from [{userId, username}, {userId, username}] to {userId: {name: username}, userId2: {name: username2}}
+  buildPlayersMap(players) {
     const playersMap = {};
     for (const player of players) {
       playersMap[player.userId] = { name: player.username };
     }
-    
-    // Create session data
-    const sessionData = {
-      roomId,
+    return playersMap;
+  }
+
+  // Normalized seating shared by every game: seat index follows the order players were
+  // matched in, and symbol/color come from getSeatMarkers() for the lobby, result screen and history
+  buildSeats(players) {
+    const markers = this.getSeatMarkers();
+    return players.map((player, seat) => ({
+      userId: player.userId,
+      username: player.username,
+      seat,
+      symbol: markers[seat]?.symbol ?? String(seat + 1),
+      color: markers[seat]?.color ?? null,
+    }));
+  }
+
+  // Per-seat display markers, e.g. [{ symbol: 'X', color: '#2563eb' }, ...]
+  getSeatMarkers() {
+    return [];
+  }
+
+  // Create a new match for players who are not queued (rematches). Queued players are
+  // matched through matchQueuedPlayers() so they leave the queue in the same step.
+  async createMatch(players, options) {
+    const redis = await this.getRedis();
+    const sessionData = this.buildMatchSession(players, options);
+    const { roomId } = sessionData;
+
+    console.log(`🔧 Creating match with room ID: ${roomId} for game type: ${this.gameType}`);
+
+    // Save the session and map each player to it together
+    const ttlSeconds = this.getSessionTtlSeconds(sessionData);
+    const transaction = redis.multi().set(`${this.sessionPrefix}${roomId}`, JSON.stringify(sessionData), { EX: ttlSeconds });
+    for (const player of players) {
+      transaction.set(`user:${player.userId}:session`, roomId, { EX: ttlSeconds });
+    }
+    await transaction.exec();
+
+    console.log(`Created ${this.gameType} match ${roomId} with ${players.length} players`);
+    return { matched: true, roomId };
+  }
+
+  // Session of a freshly started match, seated in the order players are given.
+  // Public matches play with the default room options.
+  buildMatchSession(players, options) {
+    const roomOptions = this.normalizeRoomOptions(options);
+    // Create initial game state
+    const gameState = this.createInitialGameState(players, roomOptions);
+    const playersMap = this.buildPlayersMap(players);
+
+    return {
+      roomId: this.generateRoomId(),
       gameType: this.gameType,
       players: playersMap,  // Use the transformed players map
+      seats: this.buildSeats(players),
+      options: roomOptions,
       gameState,
+      moves: [],
+      clock: this.createSessionClock(players, gameState),
       status: 'active',
+      version: 0,
+      createdAt: Date.now(),
+      startedAt: Date.now()
+    };
+  }
+
+  // Every stored session of this game, in whatever state
+  async listSessions() {
+    const redis = await this.getRedis();
+    const sessions = [];
+    for await (const keys of redis.scanIterator({ MATCH: `${this.sessionPrefix}*`, COUNT: 100 })) {
+      if (keys.length === 0) continue;
+      for (const data of await redis.mGet(keys)) {
+        if (data) {
+          sessions.push(JSON.parse(data));
+        }
+      }
+    }
+    return sessions;
+  }
+
+  // Active public sessions of this game, for the spectator listing
+  async listLiveSessions() {
+    return (await this.listSessions()).filter((session) => session.status === 'active' && !session.private);
+  }
+
+  // Create a private room that waits for a friend to join with the invite code
+  async createPrivateRoom(host, inviteCode, options) {
+    const redis = await this.getRedis();
+    const roomId = this.generateRoomId();
+    const sessionData = {
+      roomId,
+      gameType: this.gameType,
+      players: this.buildPlayersMap([host]),
+      seats: this.buildSeats([host]),
+      host,
+      inviteCode,
+      options: this.normalizeRoomOptions(options),
+      private: true,
+      gameState: null,
+      status: 'waiting',
+      version: 0,
       createdAt: Date.now()
     };
-    
-    // Save session to Redis
-    await redis.set(`${this.sessionPrefix}${roomId}`, JSON.stringify(sessionData));
-    
-    // Map each player to the session
-    for (const player of players) {
-      await redis.set(`user:${player.userId}:session`, roomId);
+    const ttlSeconds = this.getSessionTtlSeconds(sessionData);
+    await redis.set(`${this.sessionPrefix}${roomId}`, JSON.stringify(sessionData), { EX: ttlSeconds });
+    await redis.set(`user:${host.userId}:session`, roomId, { EX: ttlSeconds });
+    console.log(`Created private ${this.gameType} room ${roomId} for ${host.username} (code ${inviteCode})`);
+    return roomId;
+  }
+
+  // Seat a friend in a waiting private room and start the game.
+  // Returns { session } on success or { error, status } when the room cannot be joined.
+  async joinPrivateRoom(roomId, guest) {
+    // Two friends racing for the last seat must not both get it
+    return await this.withSessionLock(roomId, async () => {
+      const session = await this.getSession(roomId);
+      if (!session) {
+        return { error: "Room no longer available", status: 404 };
+      }
+      if (session.seats.some((seat) => seat.userId === guest.userId)) {
+        // Host (or a player already seated) re-opening the link
+        return { session };
+      }
+      if (session.status !== 'waiting') {
+        return { error: "Room is already full", status: 409 };
+      }
+
+      const players = [session.host, guest];
+      session.players = this.buildPlayersMap(players);
+      session.seats = this.buildSeats(players);
+      session.gameState = this.createInitialGameState(players, session.options);
+      session.moves = [];
+      session.clock = this.createSessionClock(players, session.gameState);
+      session.status = 'active';
+      session.startedAt = Date.now();
+
+      await this.setUserSession(guest.userId, roomId);
+      await this.updateSession(roomId, session);
+      console.log(`${guest.username} joined private ${this.gameType} room ${roomId}`);
+      return { session };
+    });
+  }
+
+  createSessionClock(players, gameState) {
+    return createClock(
+      this.getTimeControl(),
+      players.map((player) => player.userId),
+      this.getCurrentPlayerId(gameState)
+    );
+  }
+
+  // Settings the host can pick when creating a private room, listed by GET /games so the lobby
+  // can show them. Each is { key, label, type: 'boolean' | 'select', default } and select
+  // options add choices: [{ value, label }]. Return [] for games without settings.
+  getRoomOptions() {
+    return [];
+  }
+
+  // The room's settings from what the client sent: known keys only, anything invalid replaced by its default
+  normalizeRoomOptions(options = {}) {
+    const normalized = {};
+    for (const option of this.getRoomOptions()) {
+      const value = options?.[option.key];
+      const valid = option.type === 'boolean'
+        ? typeof value === 'boolean'
+        : option.choices.some((choice) => choice.value === value);
+      normalized[option.key] = valid ? value : option.default;
     }
-    
-    console.log(`Created ${this.gameType} match ${roomId} with ${players.length} players`);
-    return { matched: true, roomId };
+    return normalized;
+  }
+
+  // How long a match that has its minimum players waits for more to join before starting.
+  // Only matters for games whose getMaxPlayers() is above getMinPlayers().
+  getFillWaitSeconds() {
+    return 0;
+  }
+
+  // Time control enforced by the server; see utils/clocks.js. Return null for untimed games.
+  getTimeControl() {
+    return { moveSeconds: 60, bankSeconds: null, incrementSeconds: 0 };
+  }
+
+  // Rebuild every intermediate state of a recorded game by replaying its moves
+  // from a fresh board. Frame 0 is the initial state; frame n follows move n.
+  buildReplay(players, moves, options) {
+    let gameState = this.createInitialGameState(players, this.normalizeRoomOptions(options));
+    const frames = [{ gameState, move: null }];
+    for (const move of moves) {
+      gameState = this.makeMove(gameState, move.userId, move.move);
+      frames.push({ gameState, move });
+    }
+    return frames;
+  }
+
+  // Take a player out of a running game (left, ran out of time). The default ends the game with
+  // them losing, which is right for two-player games; games for 3+ players override this to drop
+  // the player from the turn order and play on until checkGameEnd() reports a result.
+  eliminatePlayer(gameState, userId) {
+    return this.applyForfeit(gameState, userId);
   }
 
   // Abstract methods that must be implemented by subclasses
@@ -244,7 +558,8 @@ export class BaseGame {
     throw new Error('tryMatchPlayers must be implemented by subclass');
   }
 
-  createInitialGameState(players) {
+  // options are the room's settings, see getRoomOptions()
+  createInitialGameState(players, options) {
     throw new Error('createInitialGameState must be implemented by subclass');
   }
 
@@ -256,10 +571,23 @@ export class BaseGame {
     throw new Error('makeMove must be implemented by subclass');
   }
 
+  // Returns { finished: false } or { finished: true, winnerIds: string[], isDraw: boolean }.
+  // Games with more than two players can add placements: [[first ids], [second ids], ...], which
+  // become the session's standings (players eliminated earlier are ranked below them)
   checkGameEnd(gameState) {
     throw new Error('checkGameEnd must be implemented by subclass');
   }
 
+  // User id of the player whose turn it is, or null once the game is over
+  getCurrentPlayerId(gameState) {
+    throw new Error('getCurrentPlayerId must be implemented by subclass');
+  }
+
+  // Mark the game finished with loserId losing (forfeit, timeout)
+  applyForfeit(gameState, loserId) {
+    throw new Error('applyForfeit must be implemented by subclass');
+  }
+
   getGameDisplayName() {
     throw new Error('getGameDisplayName must be implemented by subclass');
   }
@@ -0,0 +1,50 @@
+import { BaseGame } from './base-game.js';
+import { checkersRules } from '../../shared/dist/rules/checkers.js';
+
+export class CheckersGame extends BaseGame {
+  constructor() {
+    super('checkers');
+  }
+
+  async tryMatchPlayers() {
+    return await this.matchQueuedPlayers(this.getMinPlayers(), this.getMaxPlayers());
+  }
+
+  // Rules live in shared/rules/checkers.ts so the frontend can run them too
+  createInitialGameState(players) {
+    return checkersRules.initialState(players);
+  }
+
+  validateMove(gameState, userId, moveData) {
+    return checkersRules.validateMove(gameState, userId, moveData);
+  }
+
+  makeMove(gameState, userId, moveData) {
+    return checkersRules.applyMove(gameState, userId, moveData);
+  }
+
+  checkGameEnd(gameState) {
+    return checkersRules.result(gameState);
+  }
+
+  getCurrentPlayerId(gameState) {
+    return checkersRules.currentPlayerId(gameState);
+  }
+
+  applyForfeit(gameState, loserId) {
+    return checkersRules.forfeit(gameState, loserId);
+  }
+
+  // Five minutes per player with a 5 second increment, and no single move over two minutes
+  getTimeControl() {
+    return { moveSeconds: 120, bankSeconds: 300, incrementSeconds: 5 };
+  }
+
+  getSeatMarkers() {
+    return [{ symbol: 'B', color: '#1f2937' }, { symbol: 'R', color: '#dc2626' }];
+  }
+
+  getGameDisplayName() { return "Checkers"; }
+  getMinPlayers() { return 2; }
+  getMaxPlayers() { return 2; }
+}
@@ -0,0 +1,50 @@
+import { BaseGame } from './base-game.js';
+import { chessRules } from '../../shared/dist/rules/chess.js';
+
+export class ChessGame extends BaseGame {
+  constructor() {
+    super('chess');
+  }
+
+  async tryMatchPlayers() {
+    return await this.matchQueuedPlayers(this.getMinPlayers(), this.getMaxPlayers());
+  }
+
+  // Rules live in shared/rules/chess.ts so the frontend can run them too
+  createInitialGameState(players) {
+    return chessRules.initialState(players);
+  }
+
+  validateMove(gameState, userId, moveData) {
+    return chessRules.validateMove(gameState, userId, moveData);
+  }
+
+  makeMove(gameState, userId, moveData) {
+    return chessRules.applyMove(gameState, userId, moveData);
+  }
+
+  checkGameEnd(gameState) {
+    return chessRules.result(gameState);
+  }
+
+  getCurrentPlayerId(gameState) {
+    return chessRules.currentPlayerId(gameState);
+  }
+
+  applyForfeit(gameState, loserId) {
+    return chessRules.forfeit(gameState, loserId);
+  }
+
+  // Rapid: ten minutes per player with a 5 second increment
+  getTimeControl() {
+    return { moveSeconds: null, bankSeconds: 600, incrementSeconds: 5 };
+  }
+
+  getSeatMarkers() {
+    return [{ symbol: 'W', color: '#a8a29e' }, { symbol: 'B', color: '#292524' }];
+  }
+
+  getGameDisplayName() { return "Chess"; }
+  getMinPlayers() { return 2; }
+  getMaxPlayers() { return 2; }
+}
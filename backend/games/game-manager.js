@@ -1,6 +1,11 @@
 // backend/games/game-manager.js
 import { TicTacToeGame } from './tictactoe.js';
 import { ConnectFourGame } from './connect-four.js';
+import { CheckersGame } from './checkers.js';
+import { ChessGame } from './chess.js';
+import { OthelloGame } from './othello.js';
+import { GomokuGame } from './gomoku.js';
+import { UltimateTicTacToeGame } from './ultimate-tictactoe.js';
 
 class GameManager {
   constructor() {
@@ -12,6 +17,11 @@ class GameManager {
     // Register all games
     this.registerGame('tictactoe', new TicTacToeGame());
     this.registerGame('connect-four', new ConnectFourGame());
+    this.registerGame('checkers', new CheckersGame());
+    this.registerGame('chess', new ChessGame());
+    this.registerGame('othello', new OthelloGame());
+    this.registerGame('gomoku', new GomokuGame());
+    this.registerGame('ultimate-tictactoe', new UltimateTicTacToeGame());
   }
 
   registerGame(gameType, gameInstance) {
@@ -34,15 +44,65 @@ class GameManager {
         type: gameType,
         name: game.getGameDisplayName(),
         minPlayers: game.getMinPlayers(),
-        maxPlayers: game.getMaxPlayers()
+        maxPlayers: game.getMaxPlayers(),
+        options: game.getRoomOptions()
       });
     }
     return games;
   }
 
-  async handleMatchmaking(gameType, userId, username) {
+  async handleMatchmaking(gameType, userId, username, rating) {
     const game = this.getGame(gameType);
-    return await game.handleMatchmaking(userId, username);
+    return await game.handleMatchmaking(userId, username, rating);
+  }
+
+  async getQueueStatus(gameType, userId) {
+    const game = this.getGame(gameType);
+    return await game.getQueueStatus(userId);
+  }
+
+  // Retry matching for every game so widening search windows can pair players
+  // who are already queued. Returns the rooms created.
+  async runMatchmakingSweep() {
+    const matches = [];
+    for (const [gameType, game] of this.games) {
+      let result = await game.tryMatchPlayers();
+      while (result.matched) {
+        matches.push({ gameType, roomId: result.roomId });
+        result = await game.tryMatchPlayers();
+      }
+    }
+    return matches;
+  }
+
+  async listLiveSessions() {
+    const sessions = [];
+    for (const game of this.games.values()) {
+      sessions.push(...await game.listLiveSessions());
+    }
+    return sessions;
+  }
+
+  // Every stored session of every game, for the janitor's sweep over rooms
+  async listSessions() {
+    const sessions = [];
+    for (const game of this.games.values()) {
+      sessions.push(...await game.listSessions());
+    }
+    return sessions;
+  }
+
+  // Drop queue entries whose lease ran out in every game. Returns how many were dropped.
+  async expireQueueEntries() {
+    let expired = 0;
+    for (const [gameType, game] of this.games) {
+      const userIds = await game.expireQueueEntries();
+      if (userIds.length > 0) {
+        console.log(`Expired ${gameType} queue entries: ${userIds.join(', ')}`);
+      }
+      expired += userIds.length;
+    }
+    return expired;
   }
 
   async cancelMatchmaking(gameType, userId) {
@@ -50,6 +110,16 @@ class GameManager {
     return await game.cancelMatchmaking(userId);
   }
 
+  async createPrivateRoom(gameType, host, inviteCode, options) {
+    const game = this.getGame(gameType);
+    return await game.createPrivateRoom(host, inviteCode, options);
+  }
+
+  async joinPrivateRoom(gameType, roomId, guest) {
+    const game = this.getGame(gameType);
+    return await game.joinPrivateRoom(roomId, guest);
+  }
+
   async getSession(gameType, roomId) {
     const game = this.getGame(gameType);
     return await game.getSession(roomId);
@@ -60,6 +130,11 @@ class GameManager {
     return await game.updateSession(roomId, sessionData);
   }
 
+  async withSessionLock(gameType, roomId, fn) {
+    const game = this.getGame(gameType);
+    return await game.withSessionLock(roomId, fn);
+  }
+
   async deleteSession(gameType, roomId) {
     const game = this.getGame(gameType);
     return await game.deleteSession(roomId);
@@ -94,6 +169,26 @@ class GameManager {
     const game = this.getGame(gameType);
     return game.checkGameEnd(gameState);
   }
+
+  getCurrentPlayerId(gameType, gameState) {
+    const game = this.getGame(gameType);
+    return game.getCurrentPlayerId(gameState);
+  }
+
+  applyForfeit(gameType, gameState, loserId) {
+    const game = this.getGame(gameType);
+    return game.applyForfeit(gameState, loserId);
+  }
+
+  eliminatePlayer(gameType, gameState, userId) {
+    const game = this.getGame(gameType);
+    return game.eliminatePlayer(gameState, userId);
+  }
+
+  buildReplay(gameType, players, moves, options) {
+    const game = this.getGame(gameType);
+    return game.buildReplay(players, moves, options);
+  }
 }
 
 // Create and export singleton instance
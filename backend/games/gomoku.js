@@ -0,0 +1,64 @@
+import { BaseGame } from './base-game.js';
+import { gomokuRules } from '../../shared/dist/rules/gomoku.js';
+
+export class GomokuGame extends BaseGame {
+  constructor() {
+    super('gomoku');
+  }
+
+  async tryMatchPlayers() {
+    return await this.matchQueuedPlayers(this.getMinPlayers(), this.getMaxPlayers());
+  }
+
+  // Rules live in shared/rules/gomoku.ts so the frontend can run them too
+  createInitialGameState(players, options) {
+    return gomokuRules.initialState(players, options);
+  }
+
+  validateMove(gameState, userId, moveData) {
+    return gomokuRules.validateMove(gameState, userId, moveData);
+  }
+
+  makeMove(gameState, userId, moveData) {
+    return gomokuRules.applyMove(gameState, userId, moveData);
+  }
+
+  checkGameEnd(gameState) {
+    return gomokuRules.result(gameState);
+  }
+
+  getCurrentPlayerId(gameState) {
+    return gomokuRules.currentPlayerId(gameState);
+  }
+
+  applyForfeit(gameState, loserId) {
+    return gomokuRules.forfeit(gameState, loserId);
+  }
+
+  getRoomOptions() {
+    return [
+      {
+        key: 'opening',
+        label: 'Opening',
+        type: 'select',
+        default: 'standard',
+        choices: [
+          { value: 'standard', label: 'Standard' },
+          { value: 'swap2', label: 'Swap2' },
+        ],
+      },
+      { key: 'exactlyFive', label: 'Exactly five (overlines do not win)', type: 'boolean', default: false },
+    ];
+  }
+
+  // Five minutes per player with a 5 second increment, and no single move over a minute
+  getTimeControl() {
+    return { moveSeconds: 60, bankSeconds: 300, incrementSeconds: 5 };
+  }
+
+  // No seat markers: with the swap2 opening, which seat plays black is only settled during the game
+
+  getGameDisplayName() { return "Gomoku"; }
+  getMinPlayers() { return 2; }
+  getMaxPlayers() { return 2; }
+}
@@ -0,0 +1,51 @@
+import { BaseGame } from './base-game.js';
+import { othelloRules } from '../../shared/dist/rules/othello.js';
+
+export class OthelloGame extends BaseGame {
+  constructor() {
+    super('othello');
+  }
+
+  async tryMatchPlayers() {
+    return await this.matchQueuedPlayers(this.getMinPlayers(), this.getMaxPlayers());
+  }
+
+  // Rules live in shared/rules/othello.ts so the frontend can run them too
+  createInitialGameState(players) {
+    return othelloRules.initialState(players);
+  }
+
+  validateMove(gameState, userId, moveData) {
+    return othelloRules.validateMove(gameState, userId, moveData);
+  }
+
+  makeMove(gameState, userId, moveData) {
+    return othelloRules.applyMove(gameState, userId, moveData);
+  }
+
+  checkGameEnd(gameState) {
+    return othelloRules.result(gameState);
+  }
+
+  getCurrentPlayerId(gameState) {
+    return othelloRules.currentPlayerId(gameState);
+  }
+
+  applyForfeit(gameState, loserId) {
+    return othelloRules.forfeit(gameState, loserId);
+  }
+
+  // Five minutes per player with a 5 second increment, and no single move over a minute
+  getTimeControl() {
+    return { moveSeconds: 60, bankSeconds: 300, incrementSeconds: 5 };
+  }
+
+  getSeatMarkers() {
+    return [{ symbol: 'B', color: '#111827' }, { symbol: 'W', color: '#9ca3af' }];
+  }
+
+  getGameDisplayName() { return "Othello"; }
+  getMinPlayers() { return 2; }
+  getMaxPlayers() { return 2; }
+}
+
@@ -1,5 +1,6 @@
 // backend/games/tictactoe.js
 import { BaseGame } from './base-game.js';
+import { ticTacToeRules } from '../../shared/dist/rules/tictactoe.js';
   
 export class TicTacToeGame extends BaseGame {
   constructor() {
@@ -8,121 +9,42 @@ export class TicTacToeGame extends BaseGame {
 
   // Implement abstract methods
   async tryMatchPlayers() {
-    const queueLength = await this.getQueueLength();
-    
-    // Only try to match if we have at least 2 players
-    if (queueLength >= 2) {
-      // Try to match two players
-      const players = [];
-      while (players.length < 2) {
-        const playerData = await this.popFromQueue();
-        if (!playerData) break;
-        players.push(JSON.parse(playerData));
-      }
-
-      console.log(`Popped ${players.length} players from queue`);
-
-      if (players.length === 2) {
-        return await this.createMatch(players);
-      } else {
-        // Put players back in queue if we couldn't match
-        for (const player of players) {
-          await this.addToQueue(player);
-        }
-        console.log(`Put ${players.length} players back in queue`);
-      }
-    }
-
-    // Not enough players yet
-    console.log(`Not enough players, waiting...`);
-    return { matched: false };
+    // Pair the closest-rated players whose search windows overlap
+    return await this.matchQueuedPlayers(2);
   }
 
+  // Rules live in shared/rules/tictactoe.ts so the frontend can run them too
   createInitialGameState(players) {
-    return {
-            board: Array(9).fill(null),
-      currentPlayer: 'X',
-            winner: null,
-      playerX: players[0].userId,
-      playerO: players[1].userId,
-            moves: 0
-    };
+    return ticTacToeRules.initialState(players);
   }
 
   validateMove(gameState, userId, moveData) {
-    const { index } = moveData;
-    
-    // Check if cell is already occupied
-    if (gameState.board[index] !== null) {
-      return { valid: false, error: "Cell already occupied" };
-    }
-    
-    // Check if game is already finished
-    if (gameState.winner) {
-      return { valid: false, error: "Game already finished" };
-    }
-    
-    // Check if it's the player's turn
-    const isPlayerX = gameState.playerX === userId;
-    const isPlayerO = gameState.playerO === userId;
-    const isCurrentPlayer = 
-      (gameState.currentPlayer === "X" && isPlayerX) ||
-      (gameState.currentPlayer === "O" && isPlayerO);
-    
-    if (!isCurrentPlayer) {
-      return { valid: false, error: "Not your turn" };
-    }
-    
-    return { valid: true };
+    return ticTacToeRules.validateMove(gameState, userId, moveData);
   }
 
   makeMove(gameState, userId, moveData) {
-    const { index } = moveData;
-    
-    // Make the move
-    const newBoard = [...gameState.board];
-    newBoard[index] = gameState.currentPlayer;
-    
-    // Check for winner
-    const winner = this.checkWinner(newBoard);
-    const isDraw = !winner && newBoard.every((cell) => cell !== null);
-    
-    // Update game state
-    const newGameState = {
-      ...gameState,
-      board: newBoard,
-      currentPlayer: gameState.currentPlayer === "X" ? "O" : "X",
-      winner: winner || (isDraw ? "draw" : null),
-      moves: gameState.moves + 1,
-    };
-    
-    return newGameState;
+    return ticTacToeRules.applyMove(gameState, userId, moveData);
   }
 
   checkGameEnd(gameState) {
-    if (gameState.winner) {
-      return {
-        finished: true,
-        winner: gameState.winner,
-        isDraw: gameState.winner === "draw"
-      };
-    }
-    return { finished: false };
+    return ticTacToeRules.result(gameState);
   }
 
-  checkWinner(board) {
-    const lines = [
-      [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
-      [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
-      [0, 4, 8], [2, 4, 6] // diagonals
-    ];
-    
-    for (const [a, b, c] of lines) {
-      if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-        return board[a];
+  getCurrentPlayerId(gameState) {
+    return ticTacToeRules.currentPlayerId(gameState);
   }
-}
-    return null;
+
+  applyForfeit(gameState, loserId) {
+    return ticTacToeRules.forfeit(gameState, loserId);
+  }
+
+  // Quick games: every move must be made within 30 seconds
+  getTimeControl() {
+    return { moveSeconds: 30, bankSeconds: null, incrementSeconds: 0 };
+  }
+
+  getSeatMarkers() {
+    return [{ symbol: 'X', color: '#2563eb' }, { symbol: 'O', color: '#9333ea' }];
   }
 
   getGameDisplayName() {
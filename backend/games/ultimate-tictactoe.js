@@ -0,0 +1,50 @@
+import { BaseGame } from './base-game.js';
+import { ultimateTicTacToeRules } from '../../shared/dist/rules/ultimate-tictactoe.js';
+
+export class UltimateTicTacToeGame extends BaseGame {
+  constructor() {
+    super('ultimate-tictactoe');
+  }
+
+  async tryMatchPlayers() {
+    return await this.matchQueuedPlayers(this.getMinPlayers(), this.getMaxPlayers());
+  }
+
+  // Rules live in shared/rules/ultimate-tictactoe.ts so the frontend can run them too
+  createInitialGameState(players) {
+    return ultimateTicTacToeRules.initialState(players);
+  }
+
+  validateMove(gameState, userId, moveData) {
+    return ultimateTicTacToeRules.validateMove(gameState, userId, moveData);
+  }
+
+  makeMove(gameState, userId, moveData) {
+    return ultimateTicTacToeRules.applyMove(gameState, userId, moveData);
+  }
+
+  checkGameEnd(gameState) {
+    return ultimateTicTacToeRules.result(gameState);
+  }
+
+  getCurrentPlayerId(gameState) {
+    return ultimateTicTacToeRules.currentPlayerId(gameState);
+  }
+
+  applyForfeit(gameState, loserId) {
+    return ultimateTicTacToeRules.forfeit(gameState, loserId);
+  }
+
+  // Five minutes per player with a 5 second increment, and no single move over a minute
+  getTimeControl() {
+    return { moveSeconds: 60, bankSeconds: 300, incrementSeconds: 5 };
+  }
+
+  getSeatMarkers() {
+    return [{ symbol: 'X', color: '#2563eb' }, { symbol: 'O', color: '#9333ea' }];
+  }
+
+  getGameDisplayName() { return "Ultimate Tic Tac Toe"; }
+  getMinPlayers() { return 2; }
+  getMaxPlayers() { return 2; }
+}
@@ -5,19 +5,53 @@ import { handleMatchmaking, cancelMatchmaking } from "./games/tictactoe.js";
 import { createClient } from 'redis';
 import { db as firestore } from "./utils/firestore.js";
 import gameManager from "./games/game-manager.js";
+import realtime from "./utils/realtime.js";
+import { requireAuth } from "./utils/auth.js";
+import { getRating, getRankTier, computeGroupEloRatings } from "./utils/ratings.js";
+import { recordMatch, listUserMatches, getMatch } from "./utils/match-history.js";
+import { isFlagged, getTurnTimeLeft, switchTurn, stopClock } from "./utils/clocks.js";
+import { generateInviteCode, normalizeInviteCode, inviteCodeKey, INVITE_CODE_TTL_SECONDS } from "./utils/invite-codes.js";
+import { getGameTypeFromRoomId, sessionKeyForRoom } from "./utils/rooms.js";
+import {
+  openResultScreen,
+  hasResultScreen,
+  isOnResultScreen,
+  getResultScreenPlayers,
+  leaveResultScreen,
+  rescheduleResultScreen,
+  closeResultScreen,
+  listDueResultScreens,
+} from "./utils/result-screens.js";
+import janitor from "./utils/janitor.js";
 
 const redis = createClient({ url: 'redis://localhost:6379' });
 redis.connect().catch(console.error);
 
 const app = express();
 app.use(cors({ 
-  origin: ["http://localhost:3000", "http://localhost:3002"] // Allow both frontend ports
+  origin: ["http://localhost:3000", "http://localhost:3002"], // Allow both frontend ports
+  allowedHeaders: ["Content-Type", "Authorization"]
 }));
 app.use(express.json());
 
-// Track players on result screen
-const playersOnResultScreen = new Map(); // roomId -> Set of userIds
-const resultScreenTimeouts = new Map(); // roomId -> timeout
+// Players still on a finished game's result screen are tracked in Redis (utils/result-screens.js);
+// the room is cleaned up once they have all left or the screen times out
+const RESULT_SCREEN_TIMEOUT = 60000;
+// Once a rematch starts, the old room only needs to live long enough for polling clients to see it
+const REMATCH_HANDOFF_TIMEOUT = 10000;
+
+// One timer per active room fires when the player on turn runs out of time
+const turnClockTimeouts = new Map(); // roomId -> timeout
+
+// A player whose last socket left an active room has this long to come back before
+// the game is scored as abandoned
+const DISCONNECT_GRACE_MS = 30000;
+const disconnectTimeouts = new Map(); // `${roomId}:${userId}` -> timeout
+
+// A player without a socket who keeps polling GET /game (the client polls every second while
+// its socket is down) is still present; each poll counts for this long
+const POLL_PRESENCE_SECONDS = 5;
+const pollWatchTimeouts = new Map(); // `${roomId}:${userId}` -> timeout
 
 // GET available games
 app.get("/games", (req, res) => {
@@ -31,16 +65,22 @@ app.get("/games", (req, res) => {
 });
 
 // Generic matchmaking endpoint for any game type
-app.post("/matchmaking/:gameType", async (req, res) => {
+app.post("/matchmaking/:gameType", requireAuth, async (req, res) => {
   try {
     const { gameType } = req.params;
-    const { userId, username } = req.body;
-    if (!userId || !username) {
-      return res.status(400).json({ error: "userId and username are required" });
+    const { userId } = req;
+    const { username } = req.body;
+    if (!username) {
+      return res.status(400).json({ error: "username is required" });
     }
-    console.log(`Matchmaking request for ${gameType}: ${userId} (${username})`);
-    const result = await gameManager.handleMatchmaking(gameType, userId, username);
+    const userSnap = await firestore.collection("users").doc(userId).get();
+    const rating = getRating(userSnap.data(), gameType);
+    console.log(`Matchmaking request for ${gameType}: ${userId} (${username}, rating ${rating})`);
+    const result = await gameManager.handleMatchmaking(gameType, userId, username, rating);
     console.log(`Matchmaking result for ${userId} in ${gameType}:`, result);
+    if (result.matched && result.roomId) {
+      await notifyMatchFound(gameType, result.roomId);
+    }
     res.json(result);
   } catch (error) {
     console.error("Matchmaking error:", error);
@@ -48,13 +88,10 @@ app.post("/matchmaking/:gameType", async (req, res) => {
   }
 });
 
-app.post("/matchmaking/:gameType/cancel", async (req, res) => {
+app.post("/matchmaking/:gameType/cancel", requireAuth, async (req, res) => {
   try {
     const { gameType } = req.params;
-    const { userId } = req.body;
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
-    }
+    const { userId } = req;
     await gameManager.cancelMatchmaking(gameType, userId);
     res.json({ success: true });
   } catch (error) {
@@ -64,281 +101,306 @@ app.post("/matchmaking/:gameType/cancel", async (req, res) => {
 });
 
 // Generic endpoint for polling matchmaking status
-app.get("/matchmaking/:gameType/status", async (req, res) => {
+app.get("/matchmaking/:gameType/status", requireAuth, async (req, res) => {
   try {
     const { gameType } = req.params;
-    const { userId } = req.query;
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
-    }
+    const { userId } = req;
     const sessionId = await redis.get(`user:${userId}:session`);
     if (sessionId) {
       // Validate that the session is still valid and accessible
-      const gameTypes = ['tictactoe', 'connect-four']; // Add more as needed
-      let validSession = false;
-      
-      for (const gt of gameTypes) {
-        const sessionKey = `${gt}:session:${sessionId}`;
-        const sessionData = await redis.get(sessionKey);
-        if (sessionData) {
-          const session = JSON.parse(sessionData);
-          // Check if this is an active session or if user is still on result screen
-          if (session.status === 'active' || 
-              (session.status === 'finished' && playersOnResultScreen.has(sessionId))) {
-            validSession = true;
-            break;
-          } else {
-            // Session is finished and no players on result screen, clean up the mapping
-            console.log(`[STATUS] Cleaning up stale session mapping for user ${userId} to ${sessionId}`);
-            await redis.del(`user:${userId}:session`);
-            break;
-          }
-        }
-      }
-      
-      if (validSession) {
+      const sessionData = await redis.get(sessionKeyForRoom(sessionId));
+      const session = sessionData ? JSON.parse(sessionData) : null;
+      // Check if this is an active session or if user is still on result screen
+      if (session && (session.status === 'active' || session.status === 'waiting' ||
+          (session.status === 'finished' && await hasResultScreen(redis, sessionId)))) {
         return res.json({ matched: true, roomId: sessionId });
-      } else {
-        // Clean up invalid session mapping
-        await redis.del(`user:${userId}:session`);
-        return res.json({ matched: false });
       }
+      // Session is gone, or finished with nobody on its result screen: clean up the mapping
+      console.log(`[STATUS] Cleaning up stale session mapping for user ${userId} to ${sessionId}`);
+      await redis.del(`user:${userId}:session`);
     }
-    return res.json({ matched: false });
+    // Still searching: report the current search window and estimated wait
+    const queueStatus = await gameManager.getQueueStatus(gameType, userId);
+    return res.json({ matched: false, ...queueStatus });
   } catch (error) {
     console.error("Status matchmaking error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// Keep legacy tictactoe endpoints for backward compatibility
-app.post("/matchmaking/tictactoe", async (req, res) => {
+// Create a private room that a friend can join with the returned invite code
+app.post("/rooms/:gameType", requireAuth, async (req, res) => {
   try {
-    const { userId, username } = req.body;
-    if (!userId || !username) {
-      return res.status(400).json({ error: "userId and username are required" });
+    const { gameType } = req.params;
+    const { userId } = req;
+    const { username, options } = req.body;
+    if (!username) {
+      return res.status(400).json({ error: "username is required" });
     }
-    console.log(`Matchmaking request: ${userId} (${username})`);
-    const result = await gameManager.handleMatchmaking('tictactoe', userId, username);
-    console.log(`Matchmaking result for ${userId}:`, result);
-    res.json(result);
+
+    // A player can't sit in the public queue and a private room at the same time
+    await gameManager.cancelMatchmaking(gameType, userId);
+
+    // Reserve a code that isn't in use yet
+    let inviteCode = null;
+    for (let attempt = 0; attempt < 5 && !inviteCode; attempt++) {
+      const candidate = generateInviteCode();
+      const reserved = await redis.set(inviteCodeKey(candidate), "pending", { NX: true, EX: INVITE_CODE_TTL_SECONDS });
+      if (reserved) inviteCode = candidate;
+    }
+    if (!inviteCode) {
+      return res.status(503).json({ error: "Could not allocate an invite code, please try again" });
+    }
+
+    const roomId = await gameManager.createPrivateRoom(gameType, { userId, username }, inviteCode, options);
+    await redis.set(inviteCodeKey(inviteCode), JSON.stringify({ gameType, roomId }), { EX: INVITE_CODE_TTL_SECONDS });
+    res.json({ roomId, gameType, inviteCode });
   } catch (error) {
-    console.error("Matchmaking error:", error);
+    console.error("Create private room error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.post("/matchmaking/tictactoe/cancel", async (req, res) => {
+// Join a private room by invite code
+app.post("/rooms/join/:code", requireAuth, async (req, res) => {
   try {
-    const { userId } = req.body;
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
+    const inviteCode = normalizeInviteCode(req.params.code);
+    const { userId } = req;
+    const { username } = req.body;
+    if (!username) {
+      return res.status(400).json({ error: "username is required" });
     }
-    await gameManager.cancelMatchmaking('tictactoe', userId);
-    res.json({ success: true });
+
+    const invite = await redis.get(inviteCodeKey(inviteCode));
+    if (!invite || invite === "pending") {
+      return res.status(404).json({ error: "Invite code not found or expired" });
+    }
+    const { gameType, roomId } = JSON.parse(invite);
+
+    await gameManager.cancelMatchmaking(gameType, userId);
+    const result = await gameManager.joinPrivateRoom(gameType, roomId, { userId, username });
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    const { session } = result;
+    if (session.status === "active" && session.host.userId !== userId) {
+      // Room is full now, the code has done its job
+      await redis.del(inviteCodeKey(inviteCode));
+      realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(session) });
+      await notifyMatchFound(gameType, roomId);
+    }
+    res.json({ matched: true, roomId, gameType });
   } catch (error) {
-    console.error("Cancel matchmaking error:", error);
+    console.error("Join private room error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// New endpoint for polling matchmaking status
-app.get("/matchmaking/tictactoe/status", async (req, res) => {
+// The session the caller is still seated in, so the lobby can offer to rejoin it after a reload.
+// Finished sessions are only returned while the caller's result screen is still open.
+app.get("/me/session", requireAuth, async (req, res) => {
   try {
-    const { userId } = req.query;
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
+    const { userId } = req;
+    const roomId = await redis.get(`user:${userId}:session`);
+    if (!roomId) {
+      return res.json({ session: null });
     }
-    const sessionId = await redis.get(`user:${userId}:session`);
-    if (sessionId) {
-      // Validate that the session is still valid and accessible
-      const sessionKey = `tictactoe:session:${sessionId}`;
-      const sessionData = await redis.get(sessionKey);
-      if (sessionData) {
-        const session = JSON.parse(sessionData);
-        // Check if this is an active session or if user is still on result screen
-        if (session.status === 'active' || 
-            (session.status === 'finished' && playersOnResultScreen.has(sessionId))) {
-          return res.json({ matched: true, roomId: sessionId });
-        } else {
-          // Session is finished and no players on result screen, clean up the mapping
-          console.log(`[STATUS] Cleaning up stale session mapping for user ${userId} to ${sessionId}`);
-          await redis.del(`user:${userId}:session`);
-          return res.json({ matched: false });
-        }
-      } else {
-        // Session doesn't exist, clean up the mapping
-        await redis.del(`user:${userId}:session`);
-        return res.json({ matched: false });
-      }
+    const gameType = getGameTypeFromRoomId(roomId);
+    const session = gameManager.games.has(gameType) ? await gameManager.getSession(gameType, roomId) : null;
+    const rejoinable = session && (
+      session.status === "active" ||
+      session.status === "waiting" ||
+      (session.status === "finished" && await isOnResultScreen(redis, roomId, userId))
+    );
+    if (!rejoinable) {
+      console.log(`[ME/SESSION] Cleaning up stale session mapping for user ${userId} to ${roomId}`);
+      await redis.del(`user:${userId}:session`);
+      return res.json({ session: null });
     }
-    return res.json({ matched: false });
+    res.json({
+      session: {
+        roomId,
+        gameType,
+        gameName: gameManager.getGame(gameType).getGameDisplayName(),
+        status: session.status,
+        players: (session.seats || []).map((seat) => ({ userId: seat.userId, name: seat.username })),
+        startedAt: session.startedAt || session.createdAt,
+      },
+    });
   } catch (error) {
-    console.error("Status matchmaking error:", error);
+    console.error("Current session error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// Generic game state endpoint for any game type
-app.get("/game/:gameType/:roomId", async (req, res) => {
+// Paginated match history for a user, newest first
+app.get("/users/:uid/matches", requireAuth, async (req, res) => {
   try {
-    const { gameType, roomId } = req.params;
-    console.log(`🎮 GET /game/${gameType}/${roomId} - Requesting game state`);
-    const sessionData = await gameManager.getSession(gameType, roomId);
-    if (!sessionData) {
-      console.log(`❌ Game not found: ${gameType}/${roomId}`);
-      return res.status(404).json({ error: "Game not found" });
-    }
-    
-    // Check if this is a finished game that should still be accessible
-    if (sessionData.status === 'finished' || sessionData.gameState?.winner) {
-      // Check if there are still players on the result screen
-      const playersOnResult = playersOnResultScreen.get(roomId);
-      if (!playersOnResult || playersOnResult.size === 0) {
-        console.log(`⚠️ Finished game ${roomId} has no players on result screen, may be cleaned up`);
-        // Don't return 404 immediately, let the frontend handle it gracefully
-      }
+    const { uid } = req.params;
+    if (uid !== req.userId) {
+      return res.status(403).json({ error: "You can only view your own match history" });
     }
-    
-    console.log(`✅ Game found: ${gameType}/${roomId}`);
-    res.json(sessionData);
+    const page = parseInt(req.query.page, 10) || 1;
+    const pageSize = parseInt(req.query.pageSize, 10) || 10;
+    res.json(await listUserMatches(uid, page, pageSize));
   } catch (error) {
-    console.error("Get game state error:", error);
+    console.error("Match history error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// GET game state (legacy tictactoe endpoint)
-app.get("/game/tictactoe/:roomId", async (req, res) => {
+// Step-by-step replay of a finished match, reconstructed from its recorded moves
+app.get("/matches/:matchId/replay", requireAuth, async (req, res) => {
   try {
-    const { roomId } = req.params;
-    const sessionData = await gameManager.getSession('tictactoe', roomId);
-    if (!sessionData) {
-      return res.status(404).json({ error: "Game not found" });
+    const match = await getMatch(req.params.matchId);
+    if (!match) {
+      return res.status(404).json({ error: "Match not found" });
+    }
+    if (!match.playerIds.includes(req.userId)) {
+      return res.status(403).json({ error: "You can only replay your own matches" });
     }
-    res.json(sessionData);
+    const players = Object.fromEntries(match.players.map((player) => [player.userId, { name: player.username }]));
+    const frames = gameManager.buildReplay(match.gameType, match.players, match.moves, match.options);
+    res.json({ match, players, frames });
   } catch (error) {
-    console.error("Get game state error:", error);
+    console.error("Match replay error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// Generic move endpoint for any game type
-app.post("/game/:gameType/:roomId/move", async (req, res) => {
+// In-progress public matches that can be watched, most-watched first
+app.get("/live", requireAuth, async (req, res) => {
+  try {
+    const sessions = await gameManager.listLiveSessions();
+    const matches = sessions
+      .map((session) => ({
+        roomId: session.roomId,
+        gameType: session.gameType,
+        gameName: gameManager.getGame(session.gameType).getGameDisplayName(),
+        players: session.seats.map((seat) => ({ userId: seat.userId, name: seat.username })),
+        moveCount: (session.moves || []).length,
+        startedAt: session.startedAt,
+        spectators: realtime.getSpectatorCount(session.roomId),
+      }))
+      .sort((a, b) => b.spectators - a.spectators || b.startedAt - a.startedAt);
+    res.json({ matches });
+  } catch (error) {
+    console.error("Live matches error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Generic game state endpoint for any game type
+app.get("/game/:gameType/:roomId", requireAuth, async (req, res) => {
   try {
     const { gameType, roomId } = req.params;
-    const { userId, ...moveData } = req.body;
-    
-    const game = await gameManager.getSession(gameType, roomId);
-    if (!game) {
+    console.log(`🎮 GET /game/${gameType}/${roomId} - Requesting game state`);
+    let sessionData = await gameManager.getSession(gameType, roomId);
+    if (!sessionData) {
+      console.log(`❌ Game not found: ${gameType}/${roomId}`);
       return res.status(404).json({ error: "Game not found" });
     }
-    
-    const { gameState } = game;
-    if (!gameState) {
-      return res.status(400).json({ error: "Invalid game state" });
-    }
-    
-    // Validate move using game manager
-    const validation = gameManager.validateMove(gameType, gameState, userId, moveData);
-    if (!validation.valid) {
-      return res.status(400).json({ error: validation.error });
+
+    if (sessionData.status === "active" && isFlagged(sessionData.clock)) {
+      // The flag fell while no timer was watching this room (e.g. after a restart)
+      sessionData = await gameManager.withSessionLock(gameType, roomId, async () => {
+        const game = await gameManager.getSession(gameType, roomId);
+        if (game?.status === "active" && isFlagged(game.clock)) {
+          await forfeitGame(gameType, game, game.clock.turnUserId, "timeout");
+        }
+        return game;
+      });
+      if (!sessionData) {
+        return res.status(404).json({ error: "Game not found" });
+      }
     }
     
-    // Make move using game manager
-    const newGameState = gameManager.makeMove(gameType, gameState, userId, moveData);
-    game.gameState = newGameState;
-    
-    // Check if game ended
-    const gameEnd = gameManager.checkGameEnd(gameType, newGameState);
-    
-    if (gameEnd.finished) {
-      await updatePlayerStats(game, gameEnd.winner, gameEnd.isDraw);
-      game.status = "finished";
-      
-      // Check if result screen tracking already exists
-      if (!playersOnResultScreen.has(roomId)) {
-        // Initialize result screen tracking for both players
-        const playerX = game.gameState.playerX;
-        const playerO = game.gameState.playerO;
-        playersOnResultScreen.set(roomId, new Set([playerX, playerO]));
-        
-        // Set timeout for automatic cleanup (60 seconds)
-        const timeout = setTimeout(async () => {
-          console.log(`Auto-cleanup timeout triggered for room: ${roomId}`);
-          await cleanupResultScreen(roomId);
-        }, 60000);
-        resultScreenTimeouts.set(roomId, timeout);
-        
-        console.log(`Game finished, result screen initialized: ${roomId}`);
-      } else {
-        console.log(`Result screen already initialized for room: ${roomId}`);
+    // Check if this is a finished game that should still be accessible
+    if (sessionData.status === 'finished' || sessionData.gameState?.winner) {
+      // Check if there are still players on the result screen
+      const playersOnResult = await getResultScreenPlayers(redis, roomId);
+      if (playersOnResult.length === 0) {
+        console.log(`⚠️ Finished game ${roomId} has no players on result screen, may be cleaned up`);
+        // Don't return 404 immediately, let the frontend handle it gracefully
       }
     }
     
-    await gameManager.updateSession(gameType, roomId, game);
-    res.json(game);
+    if (sessionData.status === "active" && isSeated(sessionData, req.userId)) {
+      await markPolled(gameType, sessionData, req.userId);
+    }
+
+    console.log(`✅ Game found: ${gameType}/${roomId}`);
+    res.json({ ...withServerTime(sessionData), spectators: realtime.getSpectatorCount(roomId) });
   } catch (error) {
-    console.error("Move error:", error);
+    console.error("Get game state error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// POST make move (legacy tictactoe endpoint)
-app.post("/game/tictactoe/:roomId/move", async (req, res) => {
+// Generic move endpoint for any game type
+app.post("/game/:gameType/:roomId/move", requireAuth, async (req, res) => {
   try {
-    const { roomId } = req.params;
-    const { userId, ...moveData } = req.body;
-    
-    const game = await gameManager.getSession('tictactoe', roomId);
-    if (!game) {
-      return res.status(404).json({ error: "Game not found" });
-    }
-    
-    const { gameState } = game;
-    if (!gameState) {
-      return res.status(400).json({ error: "Invalid game state" });
-    }
+    const { gameType, roomId } = req.params;
+    const { userId } = req;
+    const { userId: _claimedUserId, expectedVersion, ...moveData } = req.body;
+
+    // Moves are applied one at a time per room, so two that arrive together can't both pass validation
+    await gameManager.withSessionLock(gameType, roomId, async () => {
+      const game = await gameManager.getSession(gameType, roomId);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
     
-    // Validate move using game manager
-    const validation = gameManager.validateMove('tictactoe', gameState, userId, moveData);
-    if (!validation.valid) {
-      return res.status(400).json({ error: validation.error });
-    }
+      const { gameState } = game;
+      if (!gameState) {
+        return res.status(400).json({ error: "Invalid game state" });
+      }
+      if (game.status !== "active") {
+        // e.g. a draw was agreed while this move was in flight
+        return res.status(400).json({ error: "Game is not active" });
+      }
+
+      if (isFlagged(game.clock)) {
+        await forfeitGame(gameType, game, game.clock.turnUserId, "timeout");
+        return res.status(409).json({ error: "Time expired", session: withServerTime(game) });
+      }
+      if (expectedVersion !== undefined && expectedVersion !== (game.version ?? 0)) {
+        // Made against a board that has changed since (a move from another tab, a draw, a timeout)
+        return res.status(409).json({ error: "The game has changed since your move, try again", session: withServerTime(game) });
+      }
     
-    // Make move using game manager
-    const newGameState = gameManager.makeMove('tictactoe', gameState, userId, moveData);
-    game.gameState = newGameState;
+      // Validate move using game manager
+      const validation = gameManager.validateMove(gameType, gameState, userId, moveData);
+      if (!validation.valid) {
+        return res.status(400).json({ error: validation.error });
+      }
     
-    // Check if game ended
-    const gameEnd = gameManager.checkGameEnd('tictactoe', newGameState);
+      // Make move using game manager
+      const newGameState = gameManager.makeMove(gameType, gameState, userId, moveData);
+      game.gameState = newGameState;
+      game.moves = [...(game.moves || []), { userId, move: moveData, at: Date.now() }];
+      // Moving instead of answering a draw offer declines it, and a declined offer is over
+      // once play continues; the player who offered can still move while it is pending
+      if (game.drawOffer && (game.drawOffer.offeredBy !== userId || isDrawOfferDeclined(game.drawOffer))) {
+        game.drawOffer = null;
+      }
     
-    if (gameEnd.finished) {
-      await updatePlayerStats(game, gameEnd.winner, gameEnd.isDraw);
-      game.status = "finished";
-      
-      // Check if result screen tracking already exists
-      if (!playersOnResultScreen.has(roomId)) {
-        // Initialize result screen tracking for both players
-        const playerX = game.gameState.playerX;
-        const playerO = game.gameState.playerO;
-        playersOnResultScreen.set(roomId, new Set([playerX, playerO]));
-        
-        // Set timeout for automatic cleanup (60 seconds)
-        const timeout = setTimeout(async () => {
-          console.log(`Auto-cleanup timeout triggered for room: ${roomId}`);
-          await cleanupResultScreen(roomId);
-        }, 60000);
-        resultScreenTimeouts.set(roomId, timeout);
-        
-        console.log(`Game finished, result screen initialized: ${roomId}`);
+      // Check if game ended
+      const gameEnd = gameManager.checkGameEnd(gameType, newGameState);
+
+      if (gameEnd.finished) {
+        await finishGame(gameType, game, gameEnd, gameEnd.isDraw ? "draw" : "win");
       } else {
-        console.log(`Result screen already initialized for room: ${roomId}`);
+        if (game.clock) {
+          game.clock = switchTurn(game.clock, gameManager.getCurrentPlayerId(gameType, game.gameState));
+        }
+        await gameManager.updateSession(gameType, roomId, game);
+        scheduleTurnClock(gameType, game);
+        realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(game) });
       }
-    }
-    
-    await gameManager.updateSession('tictactoe', roomId, game);
-    res.json(game);
+      res.json(withServerTime(game));
+    });
   } catch (error) {
     console.error("Move error:", error);
     res.status(500).json({ error: "Internal server error" });
@@ -346,175 +408,220 @@ app.post("/game/tictactoe/:roomId/move", async (req, res) => {
 });
 
 // Generic leave game endpoint for any game type
-app.post("/game/:gameType/:roomId/leave", async (req, res) => {
+app.post("/game/:gameType/:roomId/leave", requireAuth, async (req, res) => {
   try {
     const { gameType, roomId } = req.params;
-    const { userId } = req.body;
+    const { userId } = req;
     const sessionKey = `${gameType}:session:${roomId}`;
-    const sessionData = await redis.get(sessionKey);
-    if (!sessionData) {
-      return res.status(404).json({ error: "Game not found" });
-    }
-    const game = JSON.parse(sessionData);
-    const { gameState } = game;
-    if (!gameState) {
-      return res.status(400).json({ error: "Invalid game state" });
-    }
-    if (gameState.winner) {
-      // Game already finished, do nothing
-      return res.json({ message: "Game already finished" });
-    }
-    // Determine the other player
-    let winnerId = null;
-    if (gameState.playerX === userId) {
-      winnerId = gameState.playerO;
-    } else if (gameState.playerO === userId) {
-      winnerId = gameState.playerX;
-    } else {
-      return res.status(400).json({ error: "User not in this game" });
-    }
-    // Set winner and update game state
-    gameState.winner = (gameState.playerX === winnerId) ? "X" : "O";
-    game.status = "finished";
-    await redis.set(sessionKey, JSON.stringify(game));
-    // Update stats in Firestore
-    await updatePlayerStats(game, gameState.winner, false, userId);
-    
-    // Check if result screen tracking already exists
-    if (!playersOnResultScreen.has(roomId)) {
-      // Initialize result screen tracking for both players
-      const playerX = gameState.playerX;
-      const playerO = gameState.playerO;
-      playersOnResultScreen.set(roomId, new Set([playerX, playerO]));
-      
-      // Set timeout for automatic cleanup (60 seconds)
-      const timeout = setTimeout(async () => {
-        console.log(`Auto-cleanup timeout triggered for room: ${roomId}`);
-        await cleanupResultScreen(roomId);
-      }, 60000);
-      resultScreenTimeouts.set(roomId, timeout);
-      
-      console.log(`Player forfeited, result screen initialized: ${roomId}`);
-    } else {
-      console.log(`Result screen already initialized for room: ${roomId}`);
-    }
-    res.json({ message: "Player left, opponent wins", winner: winnerId });
+    await gameManager.withSessionLock(gameType, roomId, async () => {
+      const sessionData = await redis.get(sessionKey);
+      if (!sessionData) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+      const game = JSON.parse(sessionData);
+      if (game.status === "waiting") {
+        // Host closing a private room before anyone joined
+        if (game.host?.userId !== userId) {
+          return res.status(400).json({ error: "User not in this game" });
+        }
+        await redis.del(sessionKey);
+        await redis.del(`user:${userId}:session`);
+        if (game.inviteCode) {
+          await redis.del(inviteCodeKey(game.inviteCode));
+        }
+        return res.json({ message: "Private room closed" });
+      }
+      if (!game.gameState) {
+        return res.status(400).json({ error: "Invalid game state" });
+      }
+      if (game.status === "finished") {
+        // Game already finished, do nothing
+        return res.json({ message: "Game already finished" });
+      }
+      if (!isSeated(game, userId)) {
+        return res.status(400).json({ error: "User not in this game" });
+      }
+      if ((game.eliminated || []).includes(userId)) {
+        // Knocked out earlier and done watching
+        if (await redis.get(`user:${userId}:session`) === roomId) {
+          await redis.del(`user:${userId}:session`);
+        }
+        return res.json({ message: "Player already eliminated" });
+      }
+      const winnerIds = await forfeitGame(gameType, game, userId, "forfeit");
+      if (winnerIds.length === 0) {
+        return res.json({ message: "Player left, game continues" });
+      }
+      res.json({ message: "Player left, opponent wins", winner: winnerIds[0] });
+    });
   } catch (error) {
     console.error("Leave game error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// POST leave game (legacy tictactoe endpoint)
-app.post("/game/tictactoe/:roomId/leave", async (req, res) => {
+// In-game actions: { action: "resign" | "offer-draw" | "accept-draw" | "decline-draw" }.
+// Resigning goes through the forfeit path; a draw offer ends the game once every player
+// still in it has accepted.
+app.post("/game/:gameType/:roomId/action", requireAuth, async (req, res) => {
   try {
-    const { roomId } = req.params;
-    const { userId } = req.body;
-    const sessionKey = `tictactoe:session:${roomId}`;
-    const sessionData = await redis.get(sessionKey);
-    if (!sessionData) {
-      return res.status(404).json({ error: "Game not found" });
-    }
-    const game = JSON.parse(sessionData);
-    const { gameState } = game;
-    if (!gameState) {
-      return res.status(400).json({ error: "Invalid game state" });
-    }
-    if (gameState.winner) {
-      // Game already finished, do nothing
-      return res.json({ message: "Game already finished" });
-    }
-    // Determine the other player
-    let winnerId = null;
-    if (gameState.playerX === userId) {
-      winnerId = gameState.playerO;
-    } else if (gameState.playerO === userId) {
-      winnerId = gameState.playerX;
-    } else {
-      return res.status(400).json({ error: "User not in this game" });
-    }
-    // Set winner and update game state
-    gameState.winner = (gameState.playerX === winnerId) ? "X" : "O";
-    game.status = "finished";
-    await redis.set(sessionKey, JSON.stringify(game));
-    // Update stats in Firestore
-    await updatePlayerStats(game, gameState.winner, false, userId);
-    
-    // Check if result screen tracking already exists
-    if (!playersOnResultScreen.has(roomId)) {
-      // Initialize result screen tracking for both players
-      const playerX = gameState.playerX;
-      const playerO = gameState.playerO;
-      playersOnResultScreen.set(roomId, new Set([playerX, playerO]));
-      
-      // Set timeout for automatic cleanup (60 seconds)
-      const timeout = setTimeout(async () => {
-        console.log(`Auto-cleanup timeout triggered for room: ${roomId}`);
-        await cleanupResultScreen(roomId);
-      }, 60000);
-      resultScreenTimeouts.set(roomId, timeout);
-      
-      console.log(`Player forfeited, result screen initialized: ${roomId}`);
-    } else {
-      console.log(`Result screen already initialized for room: ${roomId}`);
+    const { gameType, roomId } = req.params;
+    const { userId } = req;
+    const { action } = req.body;
+    if (!["resign", "offer-draw", "accept-draw", "decline-draw"].includes(action)) {
+      return res.status(400).json({ error: "action must be resign, offer-draw, accept-draw or decline-draw" });
     }
-    res.json({ message: "Player left, opponent wins", winner: winnerId });
+
+    await gameManager.withSessionLock(gameType, roomId, async () => {
+      const game = await gameManager.getSession(gameType, roomId);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+      if (game.status !== "active") {
+        return res.status(400).json({ error: "Game is not active" });
+      }
+      const activeIds = getSeatedUserIds(game).filter((id) => !(game.eliminated || []).includes(id));
+      if (!activeIds.includes(userId)) {
+        return res.status(403).json({ error: "User not in this game" });
+      }
+
+      if (action === "resign") {
+        await forfeitGame(gameType, game, userId, "resign");
+        return res.json(withServerTime(game));
+      }
+
+      const moveCount = (game.moves || []).length;
+      const offer = game.drawOffer;
+      if (action === "offer-draw") {
+        if (offer && !isDrawOfferDeclined(offer)) {
+          return res.status(409).json({ error: "A draw offer is already pending" });
+        }
+        if (offer && offer.offeredBy === userId && offer.moveCount === moveCount) {
+          return res.status(409).json({ error: "Your draw offer was declined, make a move first" });
+        }
+        game.drawOffer = { offeredBy: userId, responses: { [userId]: "accepted" }, moveCount };
+      } else {
+        if (!offer || isDrawOfferDeclined(offer)) {
+          return res.status(400).json({ error: "No draw offered" });
+        }
+        offer.responses[userId] = action === "accept-draw" ? "accepted" : "declined";
+      }
+
+      if (activeIds.every((id) => game.drawOffer.responses[id] === "accepted")) {
+        console.log(`Draw agreed in ${roomId}`);
+        await finishGame(gameType, game, { finished: true, winnerIds: [], isDraw: true }, "agreement");
+        return res.json(withServerTime(game));
+      }
+
+      await gameManager.updateSession(gameType, roomId, game);
+      realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(game) });
+      res.json(withServerTime(game));
+    });
   } catch (error) {
-    console.error("Leave game error:", error);
+    console.error("Game action error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// Generic leave result screen endpoint for any game type
-app.post("/game/:gameType/:roomId/leave-result", async (req, res) => {
+// Rematch from the result screen: { action: "offer" | "accept" | "decline" }.
+// Once every player has accepted, a fresh match starts with the seat order reversed.
+app.post("/game/:gameType/:roomId/rematch", requireAuth, async (req, res) => {
   try {
     const { gameType, roomId } = req.params;
-    const { userId } = req.body;
-    
-    const playersOnResult = playersOnResultScreen.get(roomId);
-    if (!playersOnResult) {
-      return res.status(404).json({ error: "Result screen not found" });
-    }
-    
-    // Remove player from result screen
-    playersOnResult.delete(userId);
-    
-    // Clean up user-to-session mapping for this user
-    await redis.del(`user:${userId}:session`);
-    console.log(`[LEAVE-RESULT] Cleaned up user mapping for ${userId} from room ${roomId}`);
-    
-    // If no players left on result screen, cleanup the room
-    if (playersOnResult.size === 0) {
-      await cleanupResultScreen(roomId);
+    const { userId } = req;
+    const { action } = req.body;
+    if (!["offer", "accept", "decline"].includes(action)) {
+      return res.status(400).json({ error: "action must be offer, accept or decline" });
     }
-    
-    res.json({ message: "Left result screen" });
+
+    await gameManager.withSessionLock(gameType, roomId, async () => {
+      const game = await gameManager.getSession(gameType, roomId);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+      if (game.status !== "finished") {
+        return res.status(400).json({ error: "Game is not finished" });
+      }
+      if (!isSeated(game, userId)) {
+        return res.status(403).json({ error: "User not in this game" });
+      }
+
+      const playerIds = getSeatedUserIds(game);
+      const playersOnResult = await getResultScreenPlayers(redis, roomId);
+      if (action !== "decline" && playerIds.some((id) => !playersOnResult.includes(id))) {
+        return res.status(409).json({ error: "Opponent already left" });
+      }
+      if (game.rematch?.roomId) {
+        return res.json(withServerTime(game));
+      }
+      if (action === "accept" && !game.rematch) {
+        return res.status(400).json({ error: "No rematch offered" });
+      }
+
+      if (!game.rematch) {
+        game.rematch = { offeredBy: userId, responses: {}, roomId: null };
+      }
+      game.rematch.responses[userId] = action === "decline" ? "declined" : "accepted";
+
+      if (action === "offer") {
+        // Give the opponent a full window to answer
+        await rescheduleResultScreen(redis, roomId, RESULT_SCREEN_TIMEOUT);
+      }
+
+      const everyoneAccepted = playerIds.every((id) => game.rematch.responses[id] === "accepted");
+      if (everyoneAccepted) {
+        // Swap colors / first move by reversing the seat order
+        const players = game.seats
+          .map((seat) => ({ userId: seat.userId, username: seat.username }))
+          .reverse();
+        const result = await gameManager.getGame(gameType).createMatch(players, game.options);
+        game.rematch.roomId = result.roomId;
+        console.log(`Rematch for ${roomId} started in ${result.roomId}`);
+        await rescheduleResultScreen(redis, roomId, REMATCH_HANDOFF_TIMEOUT);
+        await notifyMatchFound(gameType, result.roomId);
+      }
+
+      await gameManager.updateSession(gameType, roomId, game);
+      realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(game) });
+      res.json(withServerTime(game));
+    });
   } catch (error) {
-    console.error("Leave result screen error:", error);
+    console.error("Rematch error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// POST leave result screen (legacy tictactoe endpoint)
-app.post("/game/tictactoe/:roomId/leave-result", async (req, res) => {
+// Generic leave result screen endpoint for any game type
+app.post("/game/:gameType/:roomId/leave-result", requireAuth, async (req, res) => {
   try {
-    const { roomId } = req.params;
-    const { userId } = req.body;
+    const { gameType, roomId } = req.params;
+    const { userId } = req;
     
-    const playersOnResult = playersOnResultScreen.get(roomId);
-    if (!playersOnResult) {
+    if (!await hasResultScreen(redis, roomId)) {
       return res.status(404).json({ error: "Result screen not found" });
     }
     
     // Remove player from result screen
-    playersOnResult.delete(userId);
+    const remaining = await leaveResultScreen(redis, roomId, userId);
     
     // Clean up user-to-session mapping for this user
-    await redis.del(`user:${userId}:session`);
-    console.log(`[LEAVE-RESULT] Cleaned up user mapping for ${userId} from room ${roomId}`);
+    if (await redis.get(`user:${userId}:session`) === roomId) {
+      await redis.del(`user:${userId}:session`);
+      console.log(`[LEAVE-RESULT] Cleaned up user mapping for ${userId} from room ${roomId}`);
+    }
+
+    // Leaving the result screen turns down any pending rematch
+    await gameManager.withSessionLock(gameType, roomId, async () => {
+      const game = await gameManager.getSession(gameType, roomId);
+      if (game?.rematch && !game.rematch.roomId && !game.rematch.responses[userId]) {
+        game.rematch.responses[userId] = "declined";
+        await gameManager.updateSession(gameType, roomId, game);
+        realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(game) });
+      }
+    });
     
     // If no players left on result screen, cleanup the room
-    if (playersOnResult.size === 0) {
+    if (remaining === 0) {
       await cleanupResultScreen(roomId);
     }
     
@@ -526,9 +633,13 @@ app.post("/game/tictactoe/:roomId/leave-result", async (req, res) => {
 });
 
 // POST cleanup game session (legacy endpoint, kept for compatibility)
-app.post("/game/tictactoe/:roomId/cleanup", async (req, res) => {
+app.post("/game/tictactoe/:roomId/cleanup", requireAuth, async (req, res) => {
   try {
     const { roomId } = req.params;
+    const game = await gameManager.getSession('tictactoe', roomId);
+    if (game && !isSeated(game, req.userId)) {
+      return res.status(403).json({ error: "User not in this game" });
+    }
     await cleanupResultScreen(roomId);
     res.json({ message: "Session cleaned up" });
   } catch (error) {
@@ -537,59 +648,322 @@ app.post("/game/tictactoe/:roomId/cleanup", async (req, res) => {
   }
 });
 
-async function updatePlayerStats(game, winner, isDraw, forfeitUserId = null) {
+// Seats are the game-independent list of who plays in a session, in seat order
+function getSeatedUserIds(session) {
+  return (session.seats || []).map((seat) => seat.userId);
+}
+
+function isSeated(session, userId) {
+  return getSeatedUserIds(session).includes(userId);
+}
+
+// Push a new match to everyone in the room, including players still waiting in the queue
+async function notifyMatchFound(gameType, roomId) {
+  const session = await gameManager.getSession(gameType, roomId);
+  if (session) {
+    scheduleTurnClock(gameType, session);
+    realtime.sendToUsers(getSeatedUserIds(session), "match-found", { roomId, gameType });
+  }
+}
+
+function isDrawOfferDeclined(drawOffer) {
+  return Object.values(drawOffer.responses).includes("declined");
+}
+
+// Take loserId out of a running game. reason: "forfeit" | "timeout" | "resign" | "abandoned".
+// Two-player games end here with the opponent winning; in games with more players the loser
+// is eliminated and the rest play on. Returns the winner ids, empty while the game continues.
+// Like finishGame, only call it while holding the room's session lock.
+async function forfeitGame(gameType, game, loserId, reason) {
+  const { roomId } = game;
+  game.gameState = gameManager.eliminatePlayer(gameType, game.gameState, loserId);
+  clearDisconnectTimeout(roomId, loserId);
+  if (game.disconnected) {
+    delete game.disconnected[loserId];
+  }
+  if (reason === "forfeit" || reason === "abandoned") {
+    realtime.sendToRoom(roomId, "opponent-left", { userId: loserId });
+  }
+
+  const gameEnd = gameManager.checkGameEnd(gameType, game.gameState);
+  if (gameEnd.finished) {
+    await finishGame(gameType, game, gameEnd, reason);
+    return gameEnd.winnerIds;
+  }
+
+  game.eliminated = [...(game.eliminated || []), loserId];
+  const currentPlayerId = gameManager.getCurrentPlayerId(gameType, game.gameState);
+  if (game.clock && game.clock.turnUserId !== currentPlayerId) {
+    game.clock = switchTurn(game.clock, currentPlayerId);
+  }
+  console.log(`${loserId} eliminated from ${roomId} by ${reason}`);
+  await gameManager.updateSession(gameType, roomId, game);
+  scheduleTurnClock(gameType, game);
+  realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(game) });
+  return [];
+}
+
+// Finish a game through the single stats, history and result-screen path.
+// reason: "win" | "draw" | "forfeit" | "timeout" | "resign" | "agreement" | "abandoned"
+async function finishGame(gameType, game, gameEnd, reason) {
+  const { roomId } = game;
+  game.status = "finished";
+  game.endReason = reason;
+  game.drawOffer = null;
+  for (const userId of Object.keys(game.disconnected || {})) {
+    clearDisconnectTimeout(roomId, userId);
+  }
+  game.disconnected = null;
+  if (game.clock) {
+    game.clock = stopClock(game.clock);
+  }
+  clearTurnClock(roomId);
+
+  game.result = {
+    winnerIds: gameEnd.winnerIds,
+    isDraw: gameEnd.isDraw,
+    standings: getStandings(game, gameEnd),
+    ...(gameEnd.scores ? { scores: gameEnd.scores } : {}),
+  };
+  game.ratingChanges = await updatePlayerStats(game, game.result);
+  await recordMatch(game, { ...game.result, reason });
+  await gameManager.updateSession(gameType, roomId, game);
+
+  // Open the result screen unless it already is
+  if (await openResultScreen(redis, roomId, await getPlayersInRoom(game), RESULT_SCREEN_TIMEOUT)) {
+    console.log(`Game finished (${reason}), result screen initialized: ${roomId}`);
+  } else {
+    console.log(`Result screen already initialized for room: ${roomId}`);
+  }
+
+  realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(game) });
+  realtime.sendToRoom(roomId, "result-screen", { status: "open" });
+}
+
+// [{ userId, place }] from first to last, place 1-based with ties sharing a place.
+// Players knocked out along the way rank below everyone who was still playing, latest out first.
+function getStandings(game, gameEnd) {
+  const eliminated = game.eliminated || [];
+  let placements = gameEnd.placements;
+  if (!placements) {
+    const remaining = getSeatedUserIds(game).filter((id) => !eliminated.includes(id));
+    const winners = gameEnd.isDraw ? remaining : remaining.filter((id) => gameEnd.winnerIds.includes(id));
+    const others = remaining.filter((id) => !winners.includes(id));
+    placements = [winners, others].filter((place) => place.length > 0);
+  }
+  const placed = placements.flat();
+  const knockedOut = [...eliminated].reverse().filter((id) => !placed.includes(id)).map((id) => [id]);
+  return [...placements, ...knockedOut].flatMap((userIds, i) => userIds.map((userId) => ({ userId, place: i + 1 })));
+}
+
+// Seated players the result screen should wait for: eliminated players who already
+// went back to the lobby are left out
+async function getPlayersInRoom(game) {
+  const eliminated = game.eliminated || [];
+  const playerIds = [];
+  for (const playerId of getSeatedUserIds(game)) {
+    if (!eliminated.includes(playerId) || await redis.get(`user:${playerId}:session`) === game.roomId) {
+      playerIds.push(playerId);
+    }
+  }
+  return playerIds;
+}
+
+// Start or end a player's reconnect grace period as their sockets leave and rejoin the room.
+// session.disconnected maps each missing player to the time their grace period runs out.
+async function handlePresenceChange(roomId, userId, present) {
+  const gameType = getGameTypeFromRoomId(roomId);
+  if (!gameManager.games.has(gameType)) return;
+  await gameManager.withSessionLock(gameType, roomId, async () => {
+    const game = await gameManager.getSession(gameType, roomId);
+    if (!game || game.status !== "active" || !isSeated(game, userId) || (game.eliminated || []).includes(userId)) {
+      return;
+    }
+
+    const disconnected = { ...(game.disconnected || {}) };
+    if (present) {
+      clearDisconnectTimeout(roomId, userId);
+      if (!disconnected[userId]) return;
+      delete disconnected[userId];
+      console.log(`🔌 ${userId} reconnected to ${roomId}`);
+    } else {
+      if (disconnected[userId]) return;
+      if (await isPolling(roomId, userId)) {
+        // The socket dropped but the client fell back to polling
+        watchPolling(roomId, userId);
+        return;
+      }
+      disconnected[userId] = Date.now() + DISCONNECT_GRACE_MS;
+      const timeout = setTimeout(() => checkAbandonment(gameType, roomId, userId), DISCONNECT_GRACE_MS);
+      disconnectTimeouts.set(`${roomId}:${userId}`, timeout);
+      console.log(`🔌 ${userId} disconnected from ${roomId}, waiting ${DISCONNECT_GRACE_MS / 1000}s`);
+    }
+
+    game.disconnected = disconnected;
+    await gameManager.updateSession(gameType, roomId, game);
+    realtime.sendToRoom(roomId, "state-changed", { session: withServerTime(game) });
+  });
+}
+
+function clearDisconnectTimeout(roomId, userId) {
+  const key = `${roomId}:${userId}`;
+  const timeout = disconnectTimeouts.get(key);
+  if (timeout) {
+    clearTimeout(timeout);
+    disconnectTimeouts.delete(key);
+  }
+}
+
+async function checkAbandonment(gameType, roomId, userId) {
+  disconnectTimeouts.delete(`${roomId}:${userId}`);
+  try {
+    await gameManager.withSessionLock(gameType, roomId, async () => {
+      const game = await gameManager.getSession(gameType, roomId);
+      if (!game || game.status !== "active" || !game.disconnected?.[userId]) return;
+      if (realtime.isPresent(roomId, userId)) return;
+      if (await isPolling(roomId, userId)) {
+        watchPolling(roomId, userId);
+        return;
+      }
+      console.log(`🔌 ${userId} did not come back to ${roomId}, scoring it as abandoned`);
+      await forfeitGame(gameType, game, userId, "abandoned");
+    });
+  } catch (error) {
+    console.error(`Abandonment check error for room ${roomId}:`, error);
+  }
+}
+
+function pollPresenceKey(roomId, userId) {
+  return `room:${roomId}:polling:${userId}`;
+}
+
+async function isPolling(roomId, userId) {
+  return (await redis.exists(pollPresenceKey(roomId, userId))) === 1;
+}
+
+// A seated player fetched an active game: count them present, ending any grace period
+async function markPolled(gameType, game, userId) {
+  const { roomId } = game;
+  await redis.set(pollPresenceKey(roomId, userId), "1", { EX: POLL_PRESENCE_SECONDS });
+  if (realtime.isPresent(roomId, userId)) return;
+  if (game.disconnected?.[userId] || disconnectTimeouts.has(`${roomId}:${userId}`)) {
+    await handlePresenceChange(roomId, userId, true);
+  }
+  watchPolling(roomId, userId);
+}
+
+// With no socket to report the player leaving, notice when their polls stop and start the
+// grace period then
+function watchPolling(roomId, userId) {
+  const key = `${roomId}:${userId}`;
+  clearTimeout(pollWatchTimeouts.get(key));
+  const timeout = setTimeout(async () => {
+    pollWatchTimeouts.delete(key);
+    try {
+      if (realtime.isPresent(roomId, userId) || await isPolling(roomId, userId)) return;
+      await handlePresenceChange(roomId, userId, false);
+    } catch (error) {
+      console.error(`Poll presence error for room ${roomId}:`, error);
+    }
+  }, POLL_PRESENCE_SECONDS * 1000 + 1000);
+  pollWatchTimeouts.set(key, timeout);
+}
+
+realtime.on("presence", ({ roomId, userId, present }) => {
+  handlePresenceChange(roomId, userId, present).catch((error) => {
+    console.error(`Presence error for room ${roomId}:`, error);
+  });
+});
+
+// Clients compare serverTime with their own clock so turn timers count down correctly
+// even when the two clocks disagree
+function withServerTime(session) {
+  return { ...session, serverTime: Date.now() };
+}
+
+function scheduleTurnClock(gameType, session) {
+  clearTurnClock(session.roomId);
+  if (session.status !== "active" || !session.clock?.turnUserId) return;
+  const timeout = setTimeout(() => checkTurnClock(gameType, session.roomId), getTurnTimeLeft(session.clock) + 100);
+  turnClockTimeouts.set(session.roomId, timeout);
+}
+
+function clearTurnClock(roomId) {
+  const timeout = turnClockTimeouts.get(roomId);
+  if (timeout) {
+    clearTimeout(timeout);
+    turnClockTimeouts.delete(roomId);
+  }
+}
+
+async function checkTurnClock(gameType, roomId) {
+  turnClockTimeouts.delete(roomId);
   try {
-    const playerX = game.gameState.playerX;
-    const playerO = game.gameState.playerO;
-    const userRefs = [
-      firestore.collection("users").doc(playerX),
-      firestore.collection("users").doc(playerO),
-    ];
-    const updates = [
-      { gamesPlayed: 1, wins: 0, losses: 0, draws: 0 },
-      { gamesPlayed: 1, wins: 0, losses: 0, draws: 0 },
-    ];
-    if (isDraw) {
-      updates[0].draws = 1;
-      updates[1].draws = 1;
-    } else if (winner === "X") {
-      updates[0].wins = 1;
-      updates[1].losses = 1;
-    } else if (winner === "O") {
-      updates[0].losses = 1;
-      updates[1].wins = 1;
-    }
-    // If forfeit, adjust winner/loser
-    if (forfeitUserId) {
-      if (playerX === forfeitUserId) {
-        updates[0].losses = 1;
-        updates[0].wins = 0;
-        updates[1].wins = 1;
-        updates[1].losses = 0;
-      } else if (playerO === forfeitUserId) {
-        updates[1].losses = 1;
-        updates[1].wins = 0;
-        updates[0].wins = 1;
-        updates[0].losses = 0;
-      }
-    }
-    // Use Firestore transactions to update stats
-    await firestore.runTransaction(async (t) => {
-      for (let i = 0; i < 2; i++) {
-        const userRef = userRefs[i];
-        const userSnap = await t.get(userRef);
-        const stats = userSnap.exists && userSnap.data().stats ? userSnap.data().stats : { gamesPlayed: 0, wins: 0, losses: 0, draws: 0 };
-        t.update(userRef, {
-          "stats.gamesPlayed": (stats.gamesPlayed || 0) + updates[i].gamesPlayed,
-          "stats.wins": (stats.wins || 0) + updates[i].wins,
-          "stats.losses": (stats.losses || 0) + updates[i].losses,
-          "stats.draws": (stats.draws || 0) + updates[i].draws,
-        });
+    await gameManager.withSessionLock(gameType, roomId, async () => {
+      const game = await gameManager.getSession(gameType, roomId);
+      if (!game || game.status !== "active" || !game.clock) return;
+      if (isFlagged(game.clock)) {
+        console.log(`⏰ ${game.clock.turnUserId} ran out of time in ${roomId}`);
+        await forfeitGame(gameType, game, game.clock.turnUserId, "timeout");
+      } else {
+        // A move landed after this timer was set; follow the new turn
+        scheduleTurnClock(gameType, game);
       }
     });
-    console.log(`Updated stats for ${playerX} and ${playerO}`);
+  } catch (error) {
+    console.error(`Turn clock error for room ${roomId}:`, error);
+  }
+}
+
+// Apply a finished game to every seated player's stats and rating in one transaction.
+// result: { winnerIds, isDraw, standings }. Players sharing first place in a draw get a draw,
+// everyone who did not win or draw gets a loss, and ratings move by place.
+async function updatePlayerStats(game, result) {
+  try {
+    const playerIds = getSeatedUserIds(game);
+    const places = playerIds.map((playerId) => result.standings.find((standing) => standing.userId === playerId).place);
+    const userRefs = playerIds.map((playerId) => firestore.collection("users").doc(playerId));
+    const updates = playerIds.map((playerId, i) => {
+      const won = !result.isDraw && result.winnerIds.includes(playerId);
+      const drew = result.isDraw && places[i] === 1;
+      return {
+        gamesPlayed: 1,
+        wins: won ? 1 : 0,
+        losses: !won && !drew ? 1 : 0,
+        draws: drew ? 1 : 0,
+      };
+    });
+    // Use a Firestore transaction so stats and ratings of all players move together.
+    // All reads must happen before any write inside a transaction.
+    const ratingChanges = await firestore.runTransaction(async (t) => {
+      const userSnaps = await Promise.all(userRefs.map((userRef) => t.get(userRef)));
+      const userData = userSnaps.map((snap) => (snap.exists ? snap.data() : {}));
+      const before = userData.map((data) => getRating(data, game.gameType));
+      const after = computeGroupEloRatings(before, places.map((place) => -place));
+
+      playerIds.forEach((playerId, i) => {
+        const stats = userData[i].stats || { gamesPlayed: 0, wins: 0, losses: 0, draws: 0 };
+        const ratings = { ...(userData[i].ratings || {}), [game.gameType]: after[i] };
+        t.set(userRefs[i], {
+          stats: {
+            gamesPlayed: (stats.gamesPlayed || 0) + updates[i].gamesPlayed,
+            wins: (stats.wins || 0) + updates[i].wins,
+            losses: (stats.losses || 0) + updates[i].losses,
+            draws: (stats.draws || 0) + updates[i].draws,
+            // Overall rank follows the player's best game
+            rank: getRankTier(Math.max(...Object.values(ratings))),
+          },
+          ratings: { [game.gameType]: after[i] },
+        }, { merge: true });
+      });
+
+      return Object.fromEntries(playerIds.map((playerId, i) => [playerId, { before: before[i], after: after[i] }]));
+    });
+    console.log(`Updated stats and ratings for ${playerIds.join(", ")}`, ratingChanges);
+    return ratingChanges;
   } catch (error) {
     console.error("Error updating player stats:", error);
+    return null;
   }
 }
 
@@ -612,102 +986,183 @@ function checkWinner(board) {
   return null;
 }
 
-// Helper function to cleanup result screen
+// Close a finished room's result screen and clean up the room. Only the first caller does the
+// cleanup, so the last player leaving and the janitor closing the screen never both run it.
 async function cleanupResultScreen(roomId) {
   try {
     console.log(`Starting cleanup for room: ${roomId}`);
     
     // Check if cleanup is already in progress
-    if (!playersOnResultScreen.has(roomId)) {
+    if (!await closeResultScreen(redis, roomId)) {
       console.log(`Room ${roomId} already cleaned up or not tracked`);
       return;
     }
     
-    // Extract game type from room ID (format: gameType-timestamp-random)
-    const parts = roomId.split('-');
-    const gameType = parts.slice(0, -2).join('-');
-    
-    // Try to find session data for this game type
-    const sessionKey = `${gameType}:session:${roomId}`;
-    const sessionData = await redis.get(sessionKey);
+    const gameType = getGameTypeFromRoomId(roomId);
+    const sessionData = await redis.get(sessionKeyForRoom(roomId));
     
     if (sessionData) {
       const game = JSON.parse(sessionData);
-      const { gameState } = game;
+      await deleteRoom(game);
       
-      // Delete session and user mappings
-      await redis.del(sessionKey);
-      if (gameState) {
-        const playerX = gameState.playerX;
-        const playerO = gameState.playerO;
-        
-        // Delete user-to-session mappings
-        await redis.del(`user:${playerX}:session`);
-        await redis.del(`user:${playerO}:session`);
-        
-        // Also remove from queue if they're still there
-        const queueKey = `${gameType}:queue`;
-        const queue = await redis.lRange(queueKey, 0, -1);
-        for (let i = 0; i < queue.length; i++) {
-          const player = JSON.parse(queue[i]);
-          if (player.userId === playerX || player.userId === playerO) {
-            await redis.lRem(queueKey, 1, queue[i]);
-            console.log(`Removed ${player.userId} from queue during cleanup`);
-          }
+      // Also remove from queue if they're still there
+      for (const playerId of getSeatedUserIds(game)) {
+        if (await gameManager.getGame(gameType).removeFromQueue(playerId)) {
+          console.log(`Removed ${playerId} from queue during cleanup`);
         }
-        
-        console.log(`Deleted session and user mappings for room: ${roomId} (game: ${gameType})`);
       }
     } else {
       console.log(`Session data not found for room: ${roomId} (game: ${gameType})`);
     }
     
-    // Clear tracking data
-    playersOnResultScreen.delete(roomId);
-    const timeout = resultScreenTimeouts.get(roomId);
-    if (timeout) {
-      clearTimeout(timeout);
-      resultScreenTimeouts.delete(roomId);
-      console.log(`Cleared timeout for room: ${roomId}`);
-    }
-    
+    realtime.sendToRoom(roomId, "result-screen", { status: "closed" });
     console.log(`Successfully cleaned up result screen: ${roomId}`);
   } catch (error) {
     console.error(`Error in cleanupResultScreen for room ${roomId}:`, error);
   }
 }
 
+// Delete a room's session and the user mappings still pointing at it, unless a player already
+// moved on (e.g. to a rematch), and stop this process's timers for it
+async function deleteRoom(game) {
+  const { roomId } = game;
+  await redis.del(sessionKeyForRoom(roomId));
+  for (const playerId of getSeatedUserIds(game)) {
+    if (await redis.get(`user:${playerId}:session`) === roomId) {
+      await redis.del(`user:${playerId}:session`);
+    }
+    clearDisconnectTimeout(roomId, playerId);
+  }
+  clearTurnClock(roomId);
+  console.log(`Deleted session and user mappings for room: ${roomId}`);
+}
+
+// Janitor: periodic cleanup of what request handlers and timers left behind, e.g. across a
+// restart. Sessions and mappings also carry Redis TTLs (see BaseGame.getSessionTtlSeconds);
+// the janitor cleans up sooner and keeps metrics, reported by /health.
+const RESULT_SCREEN_SWEEP_INTERVAL = 5000;
+const QUEUE_SWEEP_INTERVAL = 10000;
+const ROOM_SWEEP_INTERVAL = 60000;
+// An active room nobody has moved in or been connected to for this long is given up on
+const IDLE_ROOM_TIMEOUT = 30 * 60 * 1000;
+
+janitor.addTask("result-screens", RESULT_SCREEN_SWEEP_INTERVAL, async () => {
+  const roomIds = await listDueResultScreens(redis);
+  for (const roomId of roomIds) {
+    console.log(`Auto-cleanup timeout triggered for room: ${roomId}`);
+    await cleanupResultScreen(roomId);
+  }
+  return { resultScreensClosed: roomIds.length };
+});
+
+janitor.addTask("queues", QUEUE_SWEEP_INTERVAL, async () => {
+  return { queueEntriesExpired: await gameManager.expireQueueEntries() };
+});
+
+janitor.addTask("rooms", ROOM_SWEEP_INTERVAL, async () => {
+  const cleaned = { finishedRoomsReaped: 0, idleRoomsReaped: 0, turnClocksResumed: 0, mappingsReaped: 0 };
+  const now = Date.now();
+
+  for (const session of await gameManager.listSessions()) {
+    const { roomId, gameType } = session;
+    if (session.status === "finished") {
+      // Finished before a restart, or its result screen was lost: nobody can still be looking at it
+      if (await hasResultScreen(redis, roomId)) continue;
+      await gameManager.withSessionLock(gameType, roomId, () => deleteRoom(session));
+      cleaned.finishedRoomsReaped++;
+    } else if (session.status === "active") {
+      const lastActivity = session.updatedAt || session.startedAt || session.createdAt;
+      const anyonePresent = getSeatedUserIds(session).some((playerId) => realtime.isPresent(roomId, playerId));
+      if (!anyonePresent && now - lastActivity > IDLE_ROOM_TIMEOUT) {
+        console.log(`Reaping idle ${gameType} room ${roomId}`);
+        const reaped = await gameManager.withSessionLock(gameType, roomId, async () => {
+          const game = await gameManager.getSession(gameType, roomId);
+          // Leave it alone if a move arrived since the sweep read it
+          if (game?.status !== "active" || (game.updatedAt || game.startedAt || game.createdAt) !== lastActivity) {
+            return false;
+          }
+          await deleteRoom(game);
+          return true;
+        });
+        if (reaped) {
+          cleaned.idleRoomsReaped++;
+        }
+      } else if (session.clock?.turnUserId && !turnClockTimeouts.has(roomId)) {
+        // No timer watches this room in this process (e.g. after a restart); a flag that
+        // already fell is handled right away
+        scheduleTurnClock(gameType, session);
+        cleaned.turnClocksResumed++;
+      }
+    }
+  }
+
+  // Mappings whose room is gone would otherwise send the player back to a missing game
+  for await (const keys of redis.scanIterator({ MATCH: "user:*:session", COUNT: 100 })) {
+    for (const key of keys) {
+      const roomId = await redis.get(key);
+      if (roomId && !await redis.exists(sessionKeyForRoom(roomId))) {
+        await redis.del(key);
+        cleaned.mappingsReaped++;
+      }
+    }
+  }
+  return cleaned;
+});
+
 // Health check endpoint
 app.get("/health", (req, res) => {
-  res.json({ status: "OK", timestamp: new Date().toISOString() });
+  res.json({ status: "OK", timestamp: new Date().toISOString(), janitor: janitor.getMetrics() });
 });
 
+// Periodically retry matchmaking so players whose search window has widened get paired
+// without waiting for someone new to join the queue
+const MATCHMAKING_SWEEP_INTERVAL = 2000;
+const matchmakingSweep = setInterval(async () => {
+  try {
+    const matches = await gameManager.runMatchmakingSweep();
+    for (const { gameType, roomId } of matches) {
+      await notifyMatchFound(gameType, roomId);
+    }
+  } catch (error) {
+    console.error("Matchmaking sweep error:", error);
+  }
+}, MATCHMAKING_SWEEP_INTERVAL);
+
 // Graceful shutdown cleanup
 process.on('SIGINT', async () => {
   console.log('Shutting down gracefully...');
+  clearInterval(matchmakingSweep);
+  janitor.stop();
   
-  // Clear all timeouts
-  for (const [roomId, timeout] of resultScreenTimeouts) {
+  // Clear all timeouts. Result screens live in Redis and are picked up again after a restart.
+  for (const timeout of disconnectTimeouts.values()) {
     clearTimeout(timeout);
-    console.log(`Cleared timeout for room: ${roomId}`);
   }
+  for (const timeout of pollWatchTimeouts.values()) {
+    clearTimeout(timeout);
+  }
+
+  for (const timeout of turnClockTimeouts.values()) {
+    clearTimeout(timeout);
+  }
+  turnClockTimeouts.clear();
   
-  // Clean up all result screen tracking
-  playersOnResultScreen.clear();
-  resultScreenTimeouts.clear();
-  
-  // Close Redis connection
+  // Close realtime sockets and Redis connection
+  realtime.close();
   await redis.quit();
   console.log('Server shutdown complete');
   process.exit(0);
 });
 
 const PORT = process.env.PORT || 3001;
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`=== MATCHMAKING SERVER STARTED ===`);
   console.log(`Server running on port ${PORT}`);
+  console.log(`Realtime channel: ws://localhost:${PORT}/ws`);
   console.log(`Result screen management: ENABLED`);
-  console.log(`Auto-cleanup timeout: 60 seconds`);
+  console.log(`Auto-cleanup timeout: ${RESULT_SCREEN_TIMEOUT / 1000} seconds`);
   console.log(`Timestamp: ${new Date().toISOString()}`);
   console.log(`=====================================`);
-});
\ No newline at end of file
+});
+realtime.attach(server);
+janitor.start();
@@ -0,0 +1,205 @@
+// backend/test/matchmaking.test.js
+//
+// Matchmaking invariants under concurrent load, against the Redis on localhost:6379. Several game
+// instances, each with its own Redis connection, stand in for separate backend processes; some
+// users join twice at once or cancel mid-search while matching sweeps run alongside.
+//
+//   npm test
+//
+// Apart from the game's recent wait times, only keys of the generated test-<run>-<n> users and
+// their rooms are touched, and they are removed again after each test.
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createClient } from "redis";
+import { TicTacToeGame } from "../games/tictactoe.js";
+
+const PLAYER_COUNT = 400;
+const SERVER_COUNT = 4;
+
+let redis;
+const servers = Array.from({ length: SERVER_COUNT }, () => new TicTacToeGame());
+const game = servers[0];
+
+before(async () => {
+  // Fail straight away instead of retrying forever when no Redis is running
+  redis = createClient({ url: "redis://localhost:6379", socket: { reconnectStrategy: false } });
+  try {
+    await redis.connect();
+  } catch (error) {
+    throw new Error(`The matchmaking tests need a Redis on localhost:6379 (${error.message})`);
+  }
+  // Every join and match logs a line; keep the test output readable
+  mock.method(console, "log", () => {});
+});
+
+after(async () => {
+  for (const server of servers) {
+    if (server.redis) {
+      await (await server.redis).quit();
+    }
+  }
+  if (redis?.isOpen) {
+    await redis.quit();
+  }
+});
+
+function createUsers() {
+  const runId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  return Array.from({ length: PLAYER_COUNT }, (_, i) => ({
+    userId: `test-${runId}-${i}`,
+    username: `Test ${i}`,
+    // Everyone fits everyone's search window, so any pairing is allowed
+    rating: 1200 + (i % 50),
+  }));
+}
+
+// Keep matching whatever is left, as the periodic sweep would
+async function drainQueue() {
+  let sweep = await game.tryMatchPlayers();
+  while (sweep.matched) {
+    sweep = await game.tryMatchPlayers();
+  }
+}
+
+// Where every test user ended up: the rooms they are seated in, their session mapping, and
+// whether they have a queue entry and a queue lease
+async function collectState(users) {
+  const userIds = new Set(users.map((user) => user.userId));
+  const roomsByUser = new Map(users.map((user) => [user.userId, []]));
+  const rooms = [];
+  for await (const keys of redis.scanIterator({ MATCH: `${game.sessionPrefix}*`, COUNT: 500 })) {
+    if (keys.length === 0) continue;
+    for (const data of await redis.mGet(keys)) {
+      if (!data) continue;
+      const session = JSON.parse(data);
+      const seated = (session.seats || []).filter((seat) => userIds.has(seat.userId));
+      if (seated.length === 0) continue;
+      rooms.push(session);
+      for (const seat of seated) {
+        roomsByUser.get(seat.userId).push(session.roomId);
+      }
+    }
+  }
+
+  const queued = new Set((await redis.hKeys(game.queueKey)).filter((userId) => userIds.has(userId)));
+  const leased = new Set((await redis.zRange(game.queueLeasesKey, 0, -1)).filter((userId) => userIds.has(userId)));
+  const mappings = await redis.mGet(users.map((user) => `user:${user.userId}:session`));
+  return { rooms, roomsByUser, queued, leased, mappings };
+}
+
+// Invariants that must hold however the requests interleaved. Returns one message per violation.
+// Cancelling drops the user's session mapping, so cancelled users may be seated without one.
+function findViolations(users, { rooms, roomsByUser, queued, leased, mappings }, cancelled = new Set()) {
+  const violations = [];
+  for (const room of rooms) {
+    if (!room.seats.every((seat) => roomsByUser.has(seat.userId))) {
+      violations.push(`Room ${room.roomId} mixes test users with real players`);
+    }
+  }
+  users.forEach(({ userId }, i) => {
+    const userRooms = roomsByUser.get(userId);
+    if (userRooms.length > 1) {
+      violations.push(`${userId} is seated in ${userRooms.length} rooms: ${userRooms.join(", ")}`);
+    }
+    if (userRooms.length === 1 && mappings[i] !== userRooms[0] && !(cancelled.has(userId) && mappings[i] === null)) {
+      violations.push(`${userId} is seated in ${userRooms[0]} but mapped to ${mappings[i]}`);
+    }
+    if (userRooms.length > 0 && (queued.has(userId) || leased.has(userId))) {
+      violations.push(`${userId} is seated in ${userRooms[0]} and still queued`);
+    }
+    if (queued.has(userId) && !leased.has(userId)) {
+      violations.push(`${userId} has a queue entry without a lease`);
+    }
+    if (leased.has(userId) && !queued.has(userId)) {
+      violations.push(`${userId} has an orphaned lease without a queue entry`);
+    }
+  });
+  return violations;
+}
+
+async function cleanUp(users, rooms) {
+  for (const { userId } of users) {
+    await game.removeFromQueue(userId);
+    await redis.del(`user:${userId}:session`);
+  }
+  for (const room of rooms) {
+    await redis.del(`${game.sessionPrefix}${room.roomId}`);
+  }
+}
+
+test("concurrent joins seat every player at most once and lose nobody", async () => {
+  const users = createUsers();
+  const requests = [];
+  users.forEach((user, i) => {
+    requests.push(servers[i % SERVER_COUNT].handleMatchmaking(user.userId, user.username, user.rating));
+    if (i % 5 === 0) {
+      // Double-clicked "Find Match": the same user again, on another connection
+      requests.push(servers[(i + 1) % SERVER_COUNT].handleMatchmaking(user.userId, user.username, user.rating));
+    }
+    if (i % 25 === 0) {
+      requests.push(servers[(i + 2) % SERVER_COUNT].tryMatchPlayers());
+    }
+  });
+  const results = await Promise.allSettled(requests);
+  await drainQueue();
+
+  const state = await collectState(users);
+  try {
+    assert.deepEqual(
+      results.filter((result) => result.status === "rejected").map((result) => String(result.reason)),
+      []
+    );
+    const violations = findViolations(users, state);
+    for (const { userId } of users) {
+      if (state.roomsByUser.get(userId).length === 0 && !state.queued.has(userId)) {
+        violations.push(`${userId} was lost: neither seated nor queued`);
+      }
+    }
+    assert.deepEqual(violations, []);
+    // With everyone in each other's window, at most one player can be left without a partner
+    assert.ok(state.queued.size <= 1, `${state.queued.size} players still queued after draining`);
+  } finally {
+    await cleanUp(users, state.rooms);
+  }
+});
+
+test("cancelling mid-search leaves no queue entry or lease behind", async () => {
+  const users = createUsers();
+  const cancelled = new Set(users.filter((_, i) => i % 3 === 0).map((user) => user.userId));
+  const requests = [];
+  users.forEach((user, i) => {
+    requests.push(servers[i % SERVER_COUNT].handleMatchmaking(user.userId, user.username, user.rating));
+    if (cancelled.has(user.userId)) {
+      requests.push(servers[(i + 1) % SERVER_COUNT].cancelMatchmaking(user.userId));
+    }
+    if (i % 25 === 0) {
+      requests.push(servers[(i + 2) % SERVER_COUNT].tryMatchPlayers());
+    }
+  });
+  const results = await Promise.allSettled(requests);
+  // A cancel can reach the server before the join it races; cancel again once everything landed,
+  // as the lobby's next search status poll would find the player still queued
+  for (const userId of cancelled) {
+    if (await redis.hExists(game.queueKey, userId)) {
+      await game.cancelMatchmaking(userId);
+    }
+  }
+  await drainQueue();
+
+  const state = await collectState(users);
+  try {
+    assert.deepEqual(
+      results.filter((result) => result.status === "rejected").map((result) => String(result.reason)),
+      []
+    );
+    const violations = findViolations(users, state, cancelled);
+    for (const userId of cancelled) {
+      if (state.queued.has(userId) || state.leased.has(userId)) {
+        violations.push(`${userId} cancelled but is still queued`);
+      }
+    }
+    assert.deepEqual(violations, []);
+  } finally {
+    await cleanUp(users, state.rooms);
+  }
+});
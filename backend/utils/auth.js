@@ -0,0 +1,86 @@
+// backend/utils/auth.js
+import { createHmac, timingSafeEqual } from "crypto";
+
+// A verifier takes a raw ID token and resolves to { uid } or throws.
+// Firebase is the default; tests and local tooling can swap in createLocalVerifier()
+// via setTokenVerifier() or by setting AUTH_LOCAL_SECRET.
+let tokenVerifier = process.env.AUTH_LOCAL_SECRET
+  ? createLocalVerifier(process.env.AUTH_LOCAL_SECRET)
+  : firebaseVerifier;
+
+async function firebaseVerifier(token) {
+  // Loaded lazily so the local verifier works without a service account key
+  const { auth } = await import("./firestore.js");
+  const decoded = await auth.verifyIdToken(token);
+  return { uid: decoded.uid };
+}
+
+export function setTokenVerifier(verifier) {
+  tokenVerifier = verifier;
+}
+
+export async function verifyIdToken(token) {
+  if (!token) {
+    throw new Error("Missing ID token");
+  }
+  const decoded = await tokenVerifier(token);
+  if (!decoded || !decoded.uid) {
+    throw new Error("Token has no uid");
+  }
+  return decoded;
+}
+
+// Local HMAC-signed tokens: base64url(JSON payload) + "." + base64url(signature)
+export function signLocalToken(uid, secret, ttlSeconds = 3600) {
+  const payload = Buffer.from(
+    JSON.stringify({ uid, exp: Math.floor(Date.now() / 1000) + ttlSeconds })
+  ).toString("base64url");
+  const signature = createHmac("sha256", secret).update(payload).digest("base64url");
+  return `${payload}.${signature}`;
+}
+
+export function createLocalVerifier(secret) {
+  return async (token) => {
+    const [payload, signature] = token.split(".");
+    if (!payload || !signature) {
+      throw new Error("Malformed token");
+    }
+    const expected = createHmac("sha256", secret).update(payload).digest();
+    const actual = Buffer.from(signature, "base64url");
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new Error("Invalid token signature");
+    }
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (claims.exp && claims.exp < Math.floor(Date.now() / 1000)) {
+      throw new Error("Token expired");
+    }
+    return { uid: claims.uid };
+  };
+}
+
+function getBearerToken(req) {
+  const header = req.headers.authorization || "";
+  const [scheme, token] = header.split(" ");
+  return scheme === "Bearer" ? token : null;
+}
+
+// Express middleware: verifies the ID token and exposes the caller as req.userId.
+// A userId sent in the body or query must match the token, otherwise the request is rejected.
+export async function requireAuth(req, res, next) {
+  let decoded;
+  try {
+    decoded = await verifyIdToken(getBearerToken(req));
+  } catch (error) {
+    console.log(`[AUTH] Rejected request to ${req.path}: ${error.message}`);
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const claimedUserId = req.body?.userId || req.query?.userId;
+  if (claimedUserId && claimedUserId !== decoded.uid) {
+    console.log(`[AUTH] ${decoded.uid} tried to act as ${claimedUserId} on ${req.path}`);
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  req.userId = decoded.uid;
+  next();
+}
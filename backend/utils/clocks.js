@@ -0,0 +1,61 @@
+// backend/utils/clocks.js
+
+// Turn clocks. A game's time control can combine a per-move limit with a total bank:
+//   { moveSeconds: 30, bankSeconds: null, incrementSeconds: 0 }   30 seconds for every move
+//   { moveSeconds: null, bankSeconds: 300, incrementSeconds: 5 }  5 minutes per player, +5s per move
+// A player runs out of time when either limit is reached first.
+// Session clock shape: { timeControl, remainingMs: { userId: ms } | null, turnUserId, turnStartedAt }
+
+export function createClock(timeControl, playerIds, turnUserId, now = Date.now()) {
+  if (!timeControl || (!timeControl.moveSeconds && !timeControl.bankSeconds)) {
+    return null;
+  }
+  const remainingMs = timeControl.bankSeconds
+    ? Object.fromEntries(playerIds.map((userId) => [userId, timeControl.bankSeconds * 1000]))
+    : null;
+  return { timeControl, remainingMs, turnUserId, turnStartedAt: now };
+}
+
+// Time the player on turn has left before they flag
+export function getTurnTimeLeft(clock, now = Date.now()) {
+  const elapsed = now - clock.turnStartedAt;
+  const limits = [];
+  if (clock.timeControl.moveSeconds) {
+    limits.push(clock.timeControl.moveSeconds * 1000 - elapsed);
+  }
+  if (clock.remainingMs) {
+    limits.push(clock.remainingMs[clock.turnUserId] - elapsed);
+  }
+  return Math.max(0, Math.min(...limits));
+}
+
+export function isFlagged(clock, now = Date.now()) {
+  return !!clock && getTurnTimeLeft(clock, now) <= 0;
+}
+
+// Charge the mover for the time they used, add the increment, and start the next turn.
+// Pass nextUserId = null when the game is over to stop the clock.
+export function switchTurn(clock, nextUserId, now = Date.now()) {
+  const next = { ...clock, turnUserId: nextUserId, turnStartedAt: now };
+  if (clock.remainingMs) {
+    const used = now - clock.turnStartedAt;
+    const increment = (clock.timeControl.incrementSeconds || 0) * 1000;
+    next.remainingMs = {
+      ...clock.remainingMs,
+      [clock.turnUserId]: Math.max(0, clock.remainingMs[clock.turnUserId] - used) + increment,
+    };
+  }
+  return next;
+}
+
+// Charge the player on turn without an increment and stop the clock (game over, flag fall)
+export function stopClock(clock, now = Date.now()) {
+  const stopped = { ...clock, turnUserId: null, turnStartedAt: now };
+  if (clock.remainingMs && clock.turnUserId) {
+    stopped.remainingMs = {
+      ...clock.remainingMs,
+      [clock.turnUserId]: Math.max(0, clock.remainingMs[clock.turnUserId] - (now - clock.turnStartedAt)),
+    };
+  }
+  return stopped;
+}
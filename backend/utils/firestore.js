@@ -9,4 +9,5 @@ if (!admin.apps.length) {
     credential: admin.credential.cert(serviceAccount),
   });
 }
-export const db = admin.firestore();
\ No newline at end of file
+export const db = admin.firestore();
+export const auth = admin.auth();
\ No newline at end of file
@@ -0,0 +1,23 @@
+// backend/utils/invite-codes.js
+import { randomInt } from "crypto";
+
+// No 0/O, 1/I/L so codes survive being read aloud or typed from a screenshot
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 6;
+export const INVITE_CODE_TTL_SECONDS = 30 * 60;
+
+export function generateInviteCode() {
+  let code = "";
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeInviteCode(code) {
+  return String(code || "").trim().toUpperCase();
+}
+
+export function inviteCodeKey(code) {
+  return `room-code:${code}`;
+}
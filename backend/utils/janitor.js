@@ -0,0 +1,79 @@
+// backend/utils/janitor.js
+
+// Runs periodic cleanup tasks and keeps metrics on what they removed. A task is an async
+// function returning counts of what it cleaned up, e.g. { resultScreensClosed: 2 }; the
+// janitor adds them to running totals and remembers each task's last run for /health.
+// A task never overlaps with itself: a run that is still going when its interval comes
+// around again is skipped.
+class Janitor {
+  constructor() {
+    this.tasks = new Map(); // name -> { intervalMs, run, timer, running, stats }
+    this.totals = {};
+    this.startedAt = null;
+  }
+
+  addTask(name, intervalMs, run) {
+    this.tasks.set(name, {
+      intervalMs,
+      run,
+      timer: null,
+      running: false,
+      stats: { runs: 0, errors: 0, lastRunAt: null, lastDurationMs: null, lastCleaned: {} },
+    });
+  }
+
+  start() {
+    this.startedAt = Date.now();
+    for (const [name, task] of this.tasks) {
+      task.timer = setInterval(() => this.runTask(name), task.intervalMs);
+    }
+    console.log(`[JANITOR] Started ${this.tasks.size} tasks: ${[...this.tasks.keys()].join(", ")}`);
+  }
+
+  stop() {
+    for (const task of this.tasks.values()) {
+      clearInterval(task.timer);
+      task.timer = null;
+    }
+  }
+
+  async runTask(name) {
+    const task = this.tasks.get(name);
+    if (!task || task.running) return;
+    task.running = true;
+    const startedAt = Date.now();
+    try {
+      const cleaned = (await task.run()) || {};
+      task.stats.lastCleaned = cleaned;
+      for (const [metric, count] of Object.entries(cleaned)) {
+        this.totals[metric] = (this.totals[metric] || 0) + count;
+      }
+      const summary = Object.entries(cleaned).filter(([, count]) => count > 0);
+      if (summary.length > 0) {
+        console.log(`[JANITOR] ${name}: ${summary.map(([metric, count]) => `${metric}=${count}`).join(", ")}`);
+      }
+    } catch (error) {
+      task.stats.errors++;
+      console.error(`[JANITOR] ${name} failed:`, error);
+    } finally {
+      task.stats.runs++;
+      task.stats.lastRunAt = startedAt;
+      task.stats.lastDurationMs = Date.now() - startedAt;
+      task.running = false;
+    }
+  }
+
+  getMetrics() {
+    return {
+      startedAt: this.startedAt,
+      totals: { ...this.totals },
+      tasks: Object.fromEntries(
+        [...this.tasks].map(([name, task]) => [name, { intervalMs: task.intervalMs, ...task.stats }])
+      ),
+    };
+  }
+}
+
+// Create and export singleton instance
+const janitor = new Janitor();
+export default janitor;
@@ -0,0 +1,71 @@
+// backend/utils/match-history.js
+import { db as firestore } from "./firestore.js";
+
+const MAX_PAGE_SIZE = 50;
+
+// Persist a finished match to the `matches` collection, keyed by room id.
+// outcome: { winnerIds: string[], isDraw: boolean, standings: [{ userId, place }], reason: "win" | "draw" | "forfeit" | "timeout" | "resign" | "agreement" | "abandoned" }
+export async function recordMatch(game, outcome) {
+  try {
+    const endedAt = Date.now();
+    const startedAt = game.startedAt || game.createdAt || endedAt;
+    const players = game.seats.map(({ userId, username, seat, symbol, color }) => ({
+      userId,
+      username,
+      seat,
+      symbol,
+      color,
+    }));
+
+    await firestore.collection("matches").doc(game.roomId).set({
+      matchId: game.roomId,
+      gameType: game.gameType,
+      players,
+      playerIds: players.map((player) => player.userId),
+      moves: game.moves || [],
+      options: game.options || {},
+      result: {
+        winnerIds: outcome.winnerIds,
+        isDraw: outcome.isDraw,
+        standings: outcome.standings,
+      },
+      reason: outcome.reason,
+      ratingChanges: game.ratingChanges || null,
+      startedAt,
+      endedAt,
+      durationMs: endedAt - startedAt,
+    });
+    console.log(`Recorded match ${game.roomId} (${outcome.reason})`);
+  } catch (error) {
+    console.error(`Error recording match ${game.roomId}:`, error);
+  }
+}
+
+// Newest-first page of a user's matches
+export async function listUserMatches(userId, page = 1, pageSize = 10) {
+  const size = Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE);
+  const currentPage = Math.max(page, 1);
+  const query = firestore
+    .collection("matches")
+    .where("playerIds", "array-contains", userId)
+    .orderBy("endedAt", "desc");
+
+  const [countSnap, pageSnap] = await Promise.all([
+    query.count().get(),
+    query.offset((currentPage - 1) * size).limit(size).get(),
+  ]);
+  const total = countSnap.data().count;
+
+  return {
+    matches: pageSnap.docs.map((doc) => doc.data()),
+    page: currentPage,
+    pageSize: size,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / size)),
+  };
+}
+
+export async function getMatch(matchId) {
+  const snap = await firestore.collection("matches").doc(matchId).get();
+  return snap.exists ? snap.data() : null;
+}
@@ -0,0 +1,108 @@
+// backend/utils/queue-scripts.js
+import { defineScript } from "redis";
+
+// Matchmaking queue operations as Lua scripts, so each one runs atomically in Redis and two
+// requests handled at the same time can never both claim a player or queue one twice.
+// A game's queue is a hash of userId -> JSON entry; join order comes from the entries' joinedAt.
+// Every entry has a lease in a sorted set (userId scored by expiry time) that the searching
+// client keeps renewing; entries whose lease ran out are dropped by expireQueueEntries.
+
+// KEYS: queue hash, lease set, user session mapping. ARGV: userId, entry, lease expiry (ms).
+// Replies ["added"], ["queued"] when the user already has an entry (its lease is renewed), or
+// ["in-session", roomId] when they were seated in a room while the request was in flight.
+const JOIN_QUEUE = `
+local roomId = redis.call('GET', KEYS[3])
+if roomId then
+  return { 'in-session', roomId }
+end
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[1])
+if redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2]) == 0 then
+  return { 'queued' }
+end
+return { 'added' }
+`;
+
+// KEYS: queue hash, lease set. ARGV: userId. Replies 1 if the user was queued.
+const LEAVE_QUEUE = `
+redis.call('ZREM', KEYS[2], ARGV[1])
+return redis.call('HDEL', KEYS[1], ARGV[1])
+`;
+
+// KEYS: queue hash, lease set, session, then each player's session mapping.
+// ARGV: session JSON, roomId, TTL in seconds for the session and mappings, then each player's
+// userId in the same order as their mapping.
+// Takes the players out of the queue and writes the room in one step, or replies 0 without
+// changing anything if any of them is no longer queued (matched elsewhere, cancelled).
+const CLAIM_MATCH = `
+for i = 4, #ARGV do
+  if redis.call('HEXISTS', KEYS[1], ARGV[i]) == 0 then
+    return 0
+  end
+end
+for i = 4, #ARGV do
+  redis.call('HDEL', KEYS[1], ARGV[i])
+  redis.call('ZREM', KEYS[2], ARGV[i])
+  redis.call('SET', KEYS[i], ARGV[2], 'EX', ARGV[3])
+end
+redis.call('SET', KEYS[3], ARGV[1], 'EX', ARGV[3])
+return 1
+`;
+
+// KEYS: queue hash, lease set. ARGV: now (ms). Drops entries whose lease has run out, and
+// entries without a lease at all, and replies with the user ids it dropped.
+const EXPIRE_QUEUE_ENTRIES = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, userId in ipairs(redis.call('HKEYS', KEYS[1])) do
+  if not redis.call('ZSCORE', KEYS[2], userId) then
+    table.insert(expired, userId)
+  end
+end
+for _, userId in ipairs(expired) do
+  redis.call('HDEL', KEYS[1], userId)
+end
+return expired
+`;
+
+export const queueScripts = {
+  joinQueue: defineScript({
+    SCRIPT: JOIN_QUEUE,
+    NUMBER_OF_KEYS: 3,
+    parseCommand(parser, queueKey, leasesKey, userSessionKey, userId, entry, leaseExpiresAt) {
+      parser.pushKey(queueKey);
+      parser.pushKey(leasesKey);
+      parser.pushKey(userSessionKey);
+      parser.push(userId, entry, String(leaseExpiresAt));
+    },
+  }),
+  leaveQueue: defineScript({
+    SCRIPT: LEAVE_QUEUE,
+    NUMBER_OF_KEYS: 2,
+    parseCommand(parser, queueKey, leasesKey, userId) {
+      parser.pushKey(queueKey);
+      parser.pushKey(leasesKey);
+      parser.push(userId);
+    },
+  }),
+  claimMatch: defineScript({
+    SCRIPT: CLAIM_MATCH,
+    parseCommand(parser, queueKey, leasesKey, sessionKey, roomId, session, ttlSeconds, userIds) {
+      parser.pushKeysLength([
+        queueKey,
+        leasesKey,
+        sessionKey,
+        ...userIds.map((userId) => `user:${userId}:session`),
+      ]);
+      parser.push(JSON.stringify(session), roomId, String(ttlSeconds), ...userIds);
+    },
+  }),
+  expireQueueEntries: defineScript({
+    SCRIPT: EXPIRE_QUEUE_ENTRIES,
+    NUMBER_OF_KEYS: 2,
+    parseCommand(parser, queueKey, leasesKey, now) {
+      parser.pushKey(queueKey);
+      parser.pushKey(leasesKey);
+      parser.push(String(now));
+    },
+  }),
+};
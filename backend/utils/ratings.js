@@ -0,0 +1,59 @@
+// backend/utils/ratings.js
+
+// Elo ratings, one per game type, stored on the user doc as ratings[gameType].
+export const DEFAULT_RATING = 1200;
+const K_FACTOR = 32;
+
+// Keep in sync with lib/ratings.ts
+export const RANK_TIERS = [
+  { name: "Bronze", minRating: 0 },
+  { name: "Silver", minRating: 1100 },
+  { name: "Gold", minRating: 1300 },
+  { name: "Platinum", minRating: 1500 },
+  { name: "Diamond", minRating: 1700 },
+  { name: "Master", minRating: 1900 },
+];
+
+export function getRating(userData, gameType) {
+  const rating = userData?.ratings?.[gameType];
+  return typeof rating === "number" ? rating : DEFAULT_RATING;
+}
+
+export function getRankTier(rating) {
+  let tier = RANK_TIERS[0];
+  for (const candidate of RANK_TIERS) {
+    if (rating >= candidate.minRating) {
+      tier = candidate;
+    }
+  }
+  return tier.name;
+}
+
+// Probability that a player rated `rating` beats one rated `opponentRating`
+export function expectedScore(rating, opponentRating) {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+// score is 1 for a win, 0.5 for a draw and 0 for a loss, from the first player's point of view
+export function computeEloRatings(rating, opponentRating, score) {
+  const delta = Math.round(K_FACTOR * (score - expectedScore(rating, opponentRating)));
+  return [rating + delta, opponentRating - delta];
+}
+
+// Multi-player Elo: every pair of players is scored as a two-player game from their
+// scores (higher finishes ahead, equal scores draw), with K split across the n - 1 pairings
+// so a win over the whole field moves a rating as much as one two-player win.
+// With two players this matches computeEloRatings.
+export function computeGroupEloRatings(ratings, scores) {
+  const after = [...ratings];
+  const k = K_FACTOR / Math.max(1, ratings.length - 1);
+  for (let i = 0; i < ratings.length; i++) {
+    for (let j = i + 1; j < ratings.length; j++) {
+      const score = scores[i] > scores[j] ? 1 : scores[i] < scores[j] ? 0 : 0.5;
+      const delta = Math.round(k * (score - expectedScore(ratings[i], ratings[j])));
+      after[i] += delta;
+      after[j] -= delta;
+    }
+  }
+  return after;
+}
@@ -0,0 +1,242 @@
+// backend/utils/realtime.js
+import { EventEmitter } from "events";
+import { WebSocketServer } from "ws";
+import { verifyIdToken } from "./auth.js";
+
+// Push channel for lobby and game events. Clients connect to /ws?token=<Firebase ID token>
+// and send { type: "join-room", roomId } / { type: "leave-room", roomId }
+// to receive events for a specific game session. Spectators add `spectator: true`
+// to join-room so players can see how many people are watching.
+// Emits "presence" ({ roomId, userId, present }) when a player's first socket joins a room
+// or their last one leaves it, which the game server uses to detect disconnects.
+class RealtimeHub extends EventEmitter {
+  constructor() {
+    super();
+    this.wss = null;
+    this.userSockets = new Map(); // userId -> Set of sockets
+    this.roomSockets = new Map(); // roomId -> Set of sockets
+    this.roomSpectators = new Map(); // roomId -> Map of userId -> open spectator sockets
+    this.roomPlayers = new Map(); // roomId -> Map of userId -> open player sockets
+    this.heartbeat = null;
+  }
+
+  attach(server) {
+    this.wss = new WebSocketServer({ server, path: "/ws" });
+    this.wss.on("connection", (socket, req) => this.handleConnection(socket, req));
+
+    // Drop sockets that stopped answering pings (closed laptop lids, dead proxies)
+    this.heartbeat = setInterval(() => {
+      for (const socket of this.wss.clients) {
+        if (!socket.isAlive) {
+          socket.terminate();
+          continue;
+        }
+        socket.isAlive = false;
+        socket.ping();
+      }
+    }, 30000);
+
+    console.log(`Realtime channel attached on /ws`);
+  }
+
+  handleConnection(socket, req) {
+    const url = new URL(req.url, "http://localhost");
+    socket.isAlive = true;
+    // join-room may arrive while the token is still being verified, so messages wait on it
+    const verified = verifyIdToken(url.searchParams.get("token"));
+
+    verified.then(
+      ({ uid }) => this.registerSocket(socket, uid),
+      (error) => {
+        console.log(`[REALTIME] Rejected connection: ${error.message}`);
+        socket.close(1008, "Unauthorized");
+      }
+    );
+
+    socket.on("message", async (raw) => {
+      try {
+        await verified;
+      } catch (error) {
+        return;
+      }
+      this.handleMessage(socket, raw);
+    });
+  }
+
+  registerSocket(socket, userId) {
+    if (socket.readyState !== socket.OPEN) return; // closed while verifying
+    socket.userId = userId;
+    socket.rooms = new Set();
+    socket.spectating = new Set();
+    socket.playing = new Set();
+    addToIndex(this.userSockets, userId, socket);
+    console.log(`[REALTIME] ${userId} connected`);
+
+    socket.on("pong", () => {
+      socket.isAlive = true;
+    });
+
+    socket.on("close", () => {
+      removeFromIndex(this.userSockets, userId, socket);
+      for (const roomId of socket.rooms) {
+        removeFromIndex(this.roomSockets, roomId, socket);
+      }
+      for (const roomId of socket.spectating) {
+        this.removeSpectator(socket, roomId);
+      }
+      for (const roomId of socket.playing) {
+        this.removePlayer(socket, roomId);
+      }
+      console.log(`[REALTIME] ${userId} disconnected`);
+    });
+  }
+
+  handleMessage(socket, raw) {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (error) {
+      return;
+    }
+    if (message.type === "join-room" && message.roomId) {
+      socket.rooms.add(message.roomId);
+      addToIndex(this.roomSockets, message.roomId, socket);
+      if (message.spectator && !socket.spectating.has(message.roomId)) {
+        this.addSpectator(socket, message.roomId);
+      } else if (!message.spectator && !socket.playing.has(message.roomId)) {
+        this.addPlayer(socket, message.roomId);
+      }
+    } else if (message.type === "leave-room" && message.roomId) {
+      socket.rooms.delete(message.roomId);
+      removeFromIndex(this.roomSockets, message.roomId, socket);
+      if (socket.spectating.has(message.roomId)) {
+        this.removeSpectator(socket, message.roomId);
+      }
+      if (socket.playing.has(message.roomId)) {
+        this.removePlayer(socket, message.roomId);
+      }
+    }
+  }
+
+  // Players are tracked per user like spectators, so closing one of two tabs is not a disconnect
+  addPlayer(socket, roomId) {
+    socket.playing.add(roomId);
+    if (!this.roomPlayers.has(roomId)) {
+      this.roomPlayers.set(roomId, new Map());
+    }
+    const players = this.roomPlayers.get(roomId);
+    const count = players.get(socket.userId) || 0;
+    players.set(socket.userId, count + 1);
+    if (count === 0) {
+      this.emit("presence", { roomId, userId: socket.userId, present: true });
+    }
+  }
+
+  removePlayer(socket, roomId) {
+    socket.playing.delete(roomId);
+    const players = this.roomPlayers.get(roomId);
+    if (!players) return;
+    const remaining = (players.get(socket.userId) || 0) - 1;
+    if (remaining > 0) {
+      players.set(socket.userId, remaining);
+      return;
+    }
+    players.delete(socket.userId);
+    if (players.size === 0) {
+      this.roomPlayers.delete(roomId);
+    }
+    this.emit("presence", { roomId, userId: socket.userId, present: false });
+  }
+
+  isPresent(roomId, userId) {
+    return !!this.roomPlayers.get(roomId)?.has(userId);
+  }
+
+  // Spectators are counted per user, so several tabs watching the same room count once
+  addSpectator(socket, roomId) {
+    socket.spectating.add(roomId);
+    if (!this.roomSpectators.has(roomId)) {
+      this.roomSpectators.set(roomId, new Map());
+    }
+    const viewers = this.roomSpectators.get(roomId);
+    viewers.set(socket.userId, (viewers.get(socket.userId) || 0) + 1);
+    this.sendToRoom(roomId, "spectators", { count: viewers.size });
+  }
+
+  removeSpectator(socket, roomId) {
+    socket.spectating.delete(roomId);
+    const viewers = this.roomSpectators.get(roomId);
+    if (!viewers) return;
+    const remaining = (viewers.get(socket.userId) || 0) - 1;
+    if (remaining > 0) {
+      viewers.set(socket.userId, remaining);
+      return;
+    }
+    viewers.delete(socket.userId);
+    if (viewers.size === 0) {
+      this.roomSpectators.delete(roomId);
+    }
+    this.sendToRoom(roomId, "spectators", { count: viewers.size });
+  }
+
+  getSpectatorCount(roomId) {
+    return this.roomSpectators.get(roomId)?.size || 0;
+  }
+
+  sendToUser(userId, type, payload = {}) {
+    send(this.userSockets.get(userId), { type, ...payload });
+  }
+
+  sendToUsers(userIds, type, payload = {}) {
+    for (const userId of userIds) {
+      this.sendToUser(userId, type, payload);
+    }
+  }
+
+  sendToRoom(roomId, type, payload = {}) {
+    send(this.roomSockets.get(roomId), { type, roomId, ...payload });
+  }
+
+  close() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    if (this.wss) {
+      for (const socket of this.wss.clients) {
+        socket.terminate();
+      }
+      this.wss.close();
+    }
+  }
+}
+
+function addToIndex(index, key, socket) {
+  if (!index.has(key)) {
+    index.set(key, new Set());
+  }
+  index.get(key).add(socket);
+}
+
+function removeFromIndex(index, key, socket) {
+  const sockets = index.get(key);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) {
+    index.delete(key);
+  }
+}
+
+function send(sockets, message) {
+  if (!sockets) return;
+  const data = JSON.stringify(message);
+  for (const socket of sockets) {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(data);
+    }
+  }
+}
+
+// Create and export singleton instance
+const realtime = new RealtimeHub();
+export default realtime;
@@ -0,0 +1,65 @@
+// backend/utils/result-screens.js
+
+// Who is still looking at a finished game's result screen, kept in Redis so it survives a
+// server restart. Each open screen has a set of player ids and a closing time in a sorted set;
+// the janitor closes screens whose time has come (see listDueResultScreens).
+const CLOSING_KEY = "result-screens:closing"; // roomId scored by the time the screen closes
+// The player set outlives its closing time a little so a slow janitor never finds it missing
+const PLAYERS_TTL_GRACE_SECONDS = 5 * 60;
+
+function playersKey(roomId) {
+  return `result-screen:${roomId}:players`;
+}
+
+// Opens a room's result screen for userIds. Returns false if it was already open.
+export async function openResultScreen(redis, roomId, userIds, closeInMs) {
+  const opened = await redis.zAdd(CLOSING_KEY, { score: Date.now() + closeInMs, value: roomId }, { condition: "NX" });
+  if (!opened) return false;
+  if (userIds.length > 0) {
+    await redis
+      .multi()
+      .sAdd(playersKey(roomId), userIds)
+      .expire(playersKey(roomId), Math.ceil(closeInMs / 1000) + PLAYERS_TTL_GRACE_SECONDS)
+      .exec();
+  }
+  return true;
+}
+
+export async function hasResultScreen(redis, roomId) {
+  return (await redis.zScore(CLOSING_KEY, roomId)) !== null;
+}
+
+export async function isOnResultScreen(redis, roomId, userId) {
+  return (await redis.sIsMember(playersKey(roomId), userId)) === 1;
+}
+
+export async function getResultScreenPlayers(redis, roomId) {
+  return await redis.sMembers(playersKey(roomId));
+}
+
+// Takes userId off the screen and returns how many players are still on it
+export async function leaveResultScreen(redis, roomId, userId) {
+  const [, remaining] = await redis.multi().sRem(playersKey(roomId), userId).sCard(playersKey(roomId)).exec();
+  return remaining;
+}
+
+// (Re)start the countdown after which an open result screen closes
+export async function rescheduleResultScreen(redis, roomId, closeInMs) {
+  await redis
+    .multi()
+    .zAdd(CLOSING_KEY, { score: Date.now() + closeInMs, value: roomId }, { condition: "XX" })
+    .expire(playersKey(roomId), Math.ceil(closeInMs / 1000) + PLAYERS_TTL_GRACE_SECONDS)
+    .exec();
+}
+
+// Forgets a result screen. Returns false if it was not open (or another request closed it first),
+// so exactly one caller goes on to clean up the room.
+export async function closeResultScreen(redis, roomId) {
+  const [removed] = await redis.multi().zRem(CLOSING_KEY, roomId).del(playersKey(roomId)).exec();
+  return removed === 1;
+}
+
+// Rooms whose result screen should have closed by now
+export async function listDueResultScreens(redis, now = Date.now()) {
+  return await redis.zRangeByScore(CLOSING_KEY, "-inf", now);
+}
@@ -0,0 +1,10 @@
+// backend/utils/rooms.js
+
+// Room ids have the format gameType-timestamp-random (see BaseGame.generateRoomId)
+export function getGameTypeFromRoomId(roomId) {
+  return roomId.split("-").slice(0, -2).join("-");
+}
+
+export function sessionKeyForRoom(roomId) {
+  return `${getGameTypeFromRoomId(roomId)}:session:${roomId}`;
+}
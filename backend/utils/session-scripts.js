@@ -0,0 +1,22 @@
+// backend/utils/session-scripts.js
+import { defineScript } from "redis";
+
+// KEYS: lock. ARGV: token. Deletes the lock only if this holder still owns it, so a request
+// whose lock expired cannot release one another request has taken since. Replies 1 if released.
+const RELEASE_LOCK = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export const sessionScripts = {
+  releaseLock: defineScript({
+    SCRIPT: RELEASE_LOCK,
+    NUMBER_OF_KEYS: 1,
+    parseCommand(parser, lockKey, token) {
+      parser.pushKey(lockKey);
+      parser.push(token);
+    },
+  }),
+};
@@ -0,0 +1,51 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { WifiOff } from "lucide-react"
+import type { PlayersMap } from "@/components/game-renderers/types"
+
+interface DisconnectNoticeProps {
+  // userId -> server time at which their reconnect grace period runs out
+  disconnected: { [userId: string]: number }
+  players: PlayersMap
+  serverTime?: number
+  userId: string
+}
+
+// Shown while another player has dropped out of the room. The server decides when the
+// grace period is over and scores the game as abandoned; this only counts down.
+export default function DisconnectNotice({ disconnected, players, serverTime, userId }: DisconnectNoticeProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Offset between the server clock and ours, measured when the session arrived
+  const offset = useMemo(() => (serverTime ? serverTime - Date.now() : 0), [serverTime])
+
+  const missing = Object.entries(disconnected).filter(([playerId]) => playerId !== userId)
+
+  useEffect(() => {
+    if (missing.length === 0) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [missing.length])
+
+  if (missing.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      {missing.map(([playerId, deadline]) => {
+        const secondsLeft = Math.max(0, Math.ceil((deadline - (now + offset)) / 1000))
+        return (
+          <div
+            key={playerId}
+            className="flex items-center justify-center gap-2 rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-3 text-sm"
+          >
+            <WifiOff className="h-4 w-4 text-yellow-500" />
+            <span>
+              {players[playerId]?.name || "Your opponent"} disconnected — waiting {secondsLeft}s for them to reconnect
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
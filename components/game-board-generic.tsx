@@ -1,13 +1,21 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
-import { ArrowLeft, RotateCcw, Copy, Share2 } from "lucide-react"
+import { useRealtime } from "@/hooks/use-realtime"
+import type { RealtimeEvent } from "@/lib/realtime"
+import { authFetch } from "@/lib/api"
+import type { GameSession } from "@/lib/session"
+import type { GameRenderer, GameUser } from "@/components/game-renderers/types"
+import { ArrowLeft, RotateCcw, Copy, Share2, Eye, Flag, Handshake } from "lucide-react"
 import { Dialog } from "@/components/ui/dialog"
 import ResultScreen from "./result-screen"
+import ReplayViewer from "./replay-viewer"
+import TurnClocks from "./turn-clocks"
+import DisconnectNotice from "./disconnect-notice"
 
 interface GameState {
   [key: string]: any
@@ -17,87 +25,119 @@ interface GameState {
   finished?: boolean
 }
 
-interface Player {
-  name: string
-  email?: string
-}
-
-interface MockUser {
-  uid: string
-  email: string
-  displayName: string
-}
-
-interface RoomData {
-  gameState: any
-  players: { [key: string]: Player }
-  status: string
-  roomId?: string
-}
-
-interface GameRenderer {
-  renderBoard: (gameState: any, onMove: (moveData: any) => void, user: MockUser, loading: boolean) => React.ReactNode
-  renderStatus: (gameState: any, players: { [key: string]: Player }, user: MockUser) => React.ReactNode
-  renderPlayers: (gameState: any, players: { [key: string]: Player }, user: MockUser) => React.ReactNode
-  isGameFinished: (gameState: any) => boolean
-}
-
-interface GenericGameBoardProps {
+interface GenericGameBoardProps<TState, TMove> {
   gameType: string
   roomId: string
-  user: MockUser
+  user: GameUser
   onLeave: () => void
   onResultScreenEnter?: () => void
   onResultScreenLeave?: () => void
-  gameRenderer: GameRenderer
+  onRematch?: (roomId: string) => void
+  gameRenderer: GameRenderer<TState, TMove>
+  spectator?: boolean
 }
 
-export default function GenericGameBoard({
+export default function GenericGameBoard<TState, TMove>({
   gameType,
   roomId,
   user,
   onLeave,
   onResultScreenEnter,
   onResultScreenLeave,
-  gameRenderer
-}: GenericGameBoardProps) {
-  const [roomData, setRoomData] = useState<RoomData | null>(null)
+  onRematch,
+  gameRenderer,
+  spectator = false
+}: GenericGameBoardProps<TState, TMove>) {
+  const [roomData, setRoomData] = useState<GameSession<TState> | null>(null)
   const [loading, setLoading] = useState(false)
   const [connectionError, setConnectionError] = useState<string | null>(null)
   const [wasOnResultScreen, setWasOnResultScreen] = useState(false)
   const { toast } = useToast()
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
   const [leaving, setLeaving] = useState(false);
+  const [showResignConfirm, setShowResignConfirm] = useState(false)
+  const [actionPending, setActionPending] = useState(false)
+  const [showReplay, setShowReplay] = useState(false)
+  const [spectatorCount, setSpectatorCount] = useState(0)
 
-  // Poll game state every second
+  const handleSessionEnded = useCallback(() => {
+    setConnectionError("Game session has ended. Returning to lobby...");
+    // Auto-return to lobby after a short delay
+    setTimeout(() => {
+      onLeave();
+    }, 2000);
+  }, [onLeave]);
+
+  // Pushed and fetched sessions can arrive out of order; never step back to an older version
+  const showSession = useCallback((session: GameSession<TState>) => {
+    setRoomData((current) =>
+      current?.roomId === roomId && (current.version ?? 0) > (session.version ?? 0) ? current : { ...session, roomId }
+    )
+  }, [roomId])
+
+  // Live updates pushed by the backend
+  const handleRealtimeEvent = useCallback((event: RealtimeEvent) => {
+    switch (event.type) {
+      case "state-changed":
+        showSession(event.session);
+        setConnectionError(null);
+        break;
+      case "opponent-left":
+        if (event.userId !== user.uid) {
+          toast({
+            title: "Opponent Left",
+            description: "Your opponent left the game.",
+          });
+        }
+        break;
+      case "result-screen":
+        if (event.status === "closed") {
+          handleSessionEnded();
+        }
+        break;
+      case "spectators":
+        setSpectatorCount(event.count);
+        break;
+    }
+  }, [user.uid, toast, handleSessionEnded, showSession]);
+
+  const { connected } = useRealtime(user.uid, handleRealtimeEvent, roomId, spectator);
+
+  // A session can end without a finished board (agreed draw), so check both
+  const isSessionFinished = useCallback(
+    (data: GameSession<TState>) => data.status === "finished" || gameRenderer.isGameFinished(data.gameState),
+    [gameRenderer]
+  )
+
+  // Fetch game state once when the push channel is up, poll every second while it is down
   useEffect(() => {
     let stopped = false;
+    async function fetchGame(): Promise<boolean> {
+      try {
+        const res = await authFetch(`http://localhost:3001/game/${gameType}/${roomId}`);
+        if (stopped) return false;
+        if (res.ok) {
+          const data = await res.json();
+          showSession(data);
+          setSpectatorCount(data.spectators || 0);
+          setConnectionError(null);
+        } else if (res.status === 404) {
+          // Game not found - this could be because it was cleaned up
+          handleSessionEnded();
+          return false; // Stop polling
+        } else {
+          setConnectionError("Failed to fetch game state");
+        }
+      } catch (error) {
+        console.error("Polling error:", error);
+        setConnectionError("Failed to connect to game server");
+      }
+      return true;
+    }
     async function pollGame() {
       while (!stopped) {
-        try {
-          const res = await fetch(`http://localhost:3001/game/${gameType}/${roomId}`);
-          if (res.ok) {
-            const data = await res.json();
-            data.roomId = roomId; // Add roomId to the data
-            setRoomData(data);
-            setConnectionError(null);
-          } else if (res.status === 404) {
-            // Game not found - this could be because it was cleaned up
-            setConnectionError("Game session has ended. Returning to lobby...");
-            // Auto-return to lobby after a short delay
-            setTimeout(() => {
-              if (!stopped) {
-                onLeave();
-              }
-            }, 2000);
-            break; // Stop polling
-          } else {
-            setConnectionError("Failed to fetch game state");
-          }
-        } catch (error) {
-          console.error("Polling error:", error);
-          setConnectionError("Failed to connect to game server");
-        }
+        const keepPolling = await fetchGame();
+        if (!keepPolling || connected) break;
         await new Promise((resolve) => setTimeout(resolve, 1000));
       }
     }
@@ -105,11 +145,12 @@ export default function GenericGameBoard({
     return () => {
       stopped = true;
     };
-  }, [roomId, gameType, onLeave]);
+  }, [roomId, gameType, connected, handleSessionEnded, showSession]);
 
-  // Track result screen state changes
+  // Track result screen state changes (spectators never get a result screen)
   useEffect(() => {
-    if (roomData && gameRenderer.isGameFinished(roomData.gameState)) {
+    if (spectator) return
+    if (roomData?.gameState && isSessionFinished(roomData)) {
       if (!wasOnResultScreen) {
         console.log("🎭 Game finished, entering result screen")
         setWasOnResultScreen(true)
@@ -122,22 +163,64 @@ export default function GenericGameBoard({
         onResultScreenLeave?.()
       }
     }
-  }, [roomData, gameRenderer, wasOnResultScreen, onResultScreenEnter, onResultScreenLeave])
+  }, [spectator, roomData, isSessionFinished, wasOnResultScreen, onResultScreenEnter, onResultScreenLeave])
+
+  const makeMove = async (moveData: TMove) => {
+    if (spectator || !roomData || isSessionFinished(roomData)) return
+
+    // With shared rules, reject illegal moves locally and show legal ones immediately.
+    // Game-ending moves wait for the server so the result screen gets the final stats.
+    const { rules } = gameRenderer
+    const previousRoomData = roomData
+    let optimisticRoomData: GameSession<TState> | null = null
+    if (rules) {
+      const validation = rules.validateMove(roomData.gameState, user.uid, moveData)
+      if (!validation.valid) {
+        toast({
+          title: "Move Error",
+          description: validation.error,
+          variant: "destructive",
+        })
+        return
+      }
+      const optimisticState = rules.applyMove(roomData.gameState, user.uid, moveData)
+      if (!rules.result(optimisticState).finished) {
+        optimisticRoomData = { ...roomData, gameState: optimisticState }
+        setRoomData(optimisticRoomData)
+      }
+    }
+    // Undo the optimistic move unless a realtime update has already replaced it
+    const revertOptimisticMove = () => {
+      if (optimisticRoomData) {
+        setRoomData((current) => (current === optimisticRoomData ? previousRoomData : current))
+      }
+    }
 
-  const makeMove = async (moveData: any) => {
-    if (!roomData || gameRenderer.isGameFinished(roomData.gameState)) return
     setLoading(true)
     try {
-      const res = await fetch(`http://localhost:3001/game/${gameType}/${roomId}/move`, {
+      const res = await authFetch(`http://localhost:3001/game/${gameType}/${roomId}/move`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId: user.uid, ...moveData }),
+        // The server turns the move away with a 409 if the board changed since we last saw it
+        body: JSON.stringify({ ...moveData, expectedVersion: previousRoomData.version ?? 0 }),
       });
       if (res.ok) {
         const data = await res.json();
-        setRoomData(data);
+        showSession(data);
+      } else if (res.status === 409) {
+        // Stale board (or the clock ran out): show the server's current state instead
+        const err = await res.json();
+        revertOptimisticMove()
+        if (err.session) {
+          showSession(err.session)
+        }
+        toast({
+          title: "Board Updated",
+          description: err.error || "The game changed before your move arrived.",
+        })
       } else {
         const err = await res.json();
+        revertOptimisticMove()
         toast({
           title: "Move Error",
           description: err.error || "Invalid move.",
@@ -145,6 +228,7 @@ export default function GenericGameBoard({
         });
       }
     } catch (error) {
+      revertOptimisticMove()
       toast({
         title: "Error",
         description: "Failed to make move. Please try again.",
@@ -155,6 +239,38 @@ export default function GenericGameBoard({
     }
   }
 
+  // Resign and draw offers; the server pushes the updated session to everyone in the room
+  const sendGameAction = async (action: "resign" | "offer-draw" | "accept-draw" | "decline-draw") => {
+    setActionPending(true)
+    try {
+      const res = await authFetch(`http://localhost:3001/game/${gameType}/${roomId}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      if (res.ok) {
+        const data = await res.json()
+        showSession(data)
+      } else {
+        const err = await res.json().catch(() => ({}))
+        toast({
+          title: "Action Failed",
+          description: err.error || "The game could not process that action.",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to reach the game server. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setActionPending(false)
+      setShowResignConfirm(false)
+    }
+  }
+
   const resetGame = async () => {
     toast({
       title: "Reset Not Supported",
@@ -178,34 +294,66 @@ export default function GenericGameBoard({
     }
   }
 
-  const shareGame = async () => {
-    const shareData = {
-      title: "Join my game!",
-      text: `Join my online game. Room ID: ${roomId.slice(-6)}`,
-      url: window.location.href,
+  // Private rooms share a deep link that joins the friend straight into the room
+  const inviteCode = roomData?.inviteCode
+  const inviteLink = inviteCode ? `${window.location.origin}/?join=${inviteCode}` : null
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) {
+      await copyRoomId()
+      return
+    }
+    try {
+      await navigator.clipboard.writeText(inviteLink)
+      toast({
+        title: "🔗 Invite Link Copied!",
+        description: "Send it to a friend to play together.",
+      })
+    } catch (error) {
+      toast({
+        title: "Invite Link",
+        description: inviteLink,
+      })
     }
+  }
+
+  const shareGame = async () => {
+    const shareData = inviteLink
+      ? {
+          title: "Join my game!",
+          text: `Join my online game. Invite code: ${inviteCode}`,
+          url: inviteLink,
+        }
+      : {
+          title: "Join my game!",
+          text: `Join my online game. Room ID: ${roomId.slice(-6)}`,
+          url: window.location.href,
+        }
     try {
       if (navigator.share) {
         await navigator.share(shareData)
       } else {
-        await copyRoomId()
+        await copyInviteLink()
       }
     } catch (error) {
-      await copyRoomId()
+      await copyInviteLink()
     }
   }
 
   const handleLeaveGame = async () => {
+    // Knocked-out players have nothing left to forfeit
+    if (roomData?.eliminated?.includes(user.uid)) {
+      await confirmLeave();
+      return;
+    }
     setShowLeaveConfirm(true);
   };
 
   const confirmLeave = async () => {
     setLeaving(true);
     try {
-      await fetch(`http://localhost:3001/game/${gameType}/${roomId}/leave`, {
+      await authFetch(`http://localhost:3001/game/${gameType}/${roomId}/leave`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId: user.uid }),
       });
     } catch (error) {
       // Optionally show error
@@ -264,6 +412,40 @@ export default function GenericGameBoard({
     )
   }
 
+  // Private room waiting for the invited friend
+  if (roomData.status === "waiting") {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle>Waiting for your friend</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400">Share this invite code or link:</p>
+            <div className="text-4xl font-mono font-bold tracking-widest">{inviteCode}</div>
+            <div className="flex justify-center gap-2">
+              <Button onClick={copyInviteLink} variant="outline" size="sm">
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Link
+              </Button>
+              <Button onClick={shareGame} variant="outline" size="sm">
+                <Share2 className="h-4 w-4 mr-2" />
+                Share
+              </Button>
+            </div>
+            <div className="flex items-center justify-center space-x-2 text-sm text-gray-500">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+              <span>The game starts as soon as they join</span>
+            </div>
+            <Button onClick={confirmLeave} variant="ghost" size="sm" disabled={leaving}>
+              Close Room
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   const { gameState, players } = roomData
   if (!gameState) {
     return (
@@ -280,8 +462,41 @@ export default function GenericGameBoard({
     )
   }
 
-  // Show result screen when game ends
-  if (gameRenderer.isGameFinished(gameState)) {
+  const isActivePlayer =
+    !spectator && roomData.seats.some((seat) => seat.userId === user.uid) && !roomData.eliminated?.includes(user.uid)
+  const drawOffer = roomData.drawOffer
+  const drawOfferDeclined = !!drawOffer && Object.values(drawOffer.responses).includes("declined")
+
+  const renderDrawOffer = () => {
+    if (!drawOffer) return null
+    const offeredByName = players[drawOffer.offeredBy]?.name || "Your opponent"
+    if (drawOfferDeclined) {
+      return drawOffer.offeredBy === user.uid ? (
+        <p className="text-sm text-center text-gray-600 dark:text-gray-400">Your draw offer was declined</p>
+      ) : null
+    }
+    if (drawOffer.responses[user.uid] === "accepted") {
+      return (
+        <p className="text-sm text-center text-gray-600 dark:text-gray-400">🤝 Draw offered, waiting for a response...</p>
+      )
+    }
+    return (
+      <div className="p-3 rounded-lg border border-blue-500/30 bg-blue-500/10 space-y-2">
+        <p className="text-sm text-center">🤝 {offeredByName} offers a draw</p>
+        <div className="flex justify-center gap-2">
+          <Button onClick={() => sendGameAction("accept-draw")} size="sm" disabled={actionPending}>
+            Accept
+          </Button>
+          <Button onClick={() => sendGameAction("decline-draw")} size="sm" variant="outline" disabled={actionPending}>
+            Decline
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  // Show result screen when game ends; spectators stay on the final board
+  if (!spectator && isSessionFinished(roomData)) {
     // Ensure roomId is set for ResultScreen
     const resultRoomData = { ...roomData, roomId }
     
@@ -294,7 +509,35 @@ export default function GenericGameBoard({
       onLeave()
     }
     
-    return <ResultScreen roomData={resultRoomData} user={user} onBackToLobby={handleBackToLobbyFromResult} />
+    // Finished matches are persisted under their room id, so the replay can be opened right away
+    if (showReplay) {
+      return (
+        <ReplayViewer
+          matchId={roomId}
+          user={user}
+          gameRenderer={gameRenderer}
+          onBack={() => setShowReplay(false)}
+        />
+      )
+    }
+
+    return (
+      <ResultScreen
+        roomData={resultRoomData}
+        user={user}
+        onBackToLobby={handleBackToLobbyFromResult}
+        onRematch={onRematch}
+        onWatchReplay={() => setShowReplay(true)}
+        gameExport={gameRenderer.exportGame?.(roomData.gameState, {
+          roomId,
+          players: roomData.players,
+          seats: roomData.seats,
+          result: roomData.result,
+          endReason: roomData.endReason,
+          startedAt: roomData.startedAt,
+        })}
+      />
+    )
   }
 
   return (
@@ -302,9 +545,9 @@ export default function GenericGameBoard({
       <div className="max-w-2xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <Button onClick={handleLeaveGame} variant="outline" size="sm">
+          <Button onClick={spectator ? onLeave : handleLeaveGame} variant="outline" size="sm">
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Leave Game
+            {spectator ? "Stop Watching" : "Leave Game"}
           </Button>
           <div className="text-center">
             <h1 className="text-2xl font-bold text-gray-900 dark:text-white">🎮 {gameRenderer.constructor.name}</h1>
@@ -317,32 +560,109 @@ export default function GenericGameBoard({
                 <Share2 className="h-3 w-3" />
               </Button>
             </div>
-            <Badge variant="default" className="text-xs mt-1">
-              🔥 Live Game
-            </Badge>
+            <div className="flex items-center justify-center gap-1 mt-1">
+              <Badge variant={spectator ? "secondary" : "default"} className="text-xs">
+                {spectator ? "👁 Spectating" : "🔥 Live Game"}
+              </Badge>
+              {spectatorCount > 0 && (
+                <Badge variant="outline" className="text-xs">
+                  <Eye className="h-3 w-3 mr-1" />
+                  {spectatorCount} watching
+                </Badge>
+              )}
+            </div>
           </div>
-          <Button onClick={resetGame} variant="outline" size="sm" disabled={loading}>
-            <RotateCcw className="h-4 w-4 mr-2" />
-            Reset
-          </Button>
+          {spectator ? (
+            <div className="w-24" />
+          ) : (
+            <Button onClick={resetGame} variant="outline" size="sm" disabled={loading}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset
+            </Button>
+          )}
         </div>
 
         {/* Players Info */}
         {gameRenderer.renderPlayers(gameState, players, user)}
 
+        {!spectator && roomData.eliminated?.includes(user.uid) && (
+          <div className="p-3 text-center text-sm rounded-lg bg-slate-100 dark:bg-slate-800 text-gray-700 dark:text-gray-300">
+            💀 You're out of this game. Keep watching to see who wins, or leave at any time.
+          </div>
+        )}
+
+        {roomData.disconnected && (
+          <DisconnectNotice
+            disconnected={roomData.disconnected}
+            players={players}
+            serverTime={roomData.serverTime}
+            userId={user.uid}
+          />
+        )}
+
+        {/* Turn clocks */}
+        {roomData.clock && (
+          <TurnClocks clock={roomData.clock} players={players} serverTime={roomData.serverTime} userId={user.uid} />
+        )}
+
         {/* Game Board */}
         {gameRenderer.renderBoard(gameState, makeMove, user, loading)}
 
         {/* Game Status */}
         <div className="text-center mt-4">
           {gameRenderer.renderStatus(gameState, players, user)}
+          {roomData.endReason === "agreement" && (
+            <p className="text-lg font-bold text-yellow-500">🤝 Drawn by agreement</p>
+          )}
         </div>
+
+        {/* Draw offers and resignation */}
+        {isActivePlayer && (
+          <div className="space-y-3">
+            {renderDrawOffer()}
+            <div className="flex justify-center gap-2">
+              <Button
+                onClick={() => sendGameAction("offer-draw")}
+                variant="outline"
+                size="sm"
+                disabled={actionPending || (!!drawOffer && !drawOfferDeclined)}
+              >
+                <Handshake className="h-4 w-4 mr-2" />
+                Offer Draw
+              </Button>
+              <Button onClick={() => setShowResignConfirm(true)} variant="outline" size="sm" disabled={actionPending}>
+                <Flag className="h-4 w-4 mr-2" />
+                Resign
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
+      {showResignConfirm && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50">
+          <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg max-w-sm w-full">
+            <h2 className="text-lg font-bold mb-2">Resign?</h2>
+            <p className="mb-4">
+              {roomData.seats.length > 2
+                ? "Resigning knocks you out of the game and counts as a loss."
+                : "Resigning ends the game and counts as a loss."}
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button onClick={() => setShowResignConfirm(false)} variant="outline" disabled={actionPending}>Cancel</Button>
+              <Button onClick={() => sendGameAction("resign")} variant="destructive" disabled={actionPending}>Resign</Button>
+            </div>
+          </div>
+        </div>
+      )}
       {showLeaveConfirm && (
         <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50">
           <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-lg max-w-sm w-full">
             <h2 className="text-lg font-bold mb-2">Leave Game?</h2>
-            <p className="mb-4">Leaving will forfeit the game and your opponent will win. Are you sure?</p>
+            <p className="mb-4">
+              {roomData.seats.length > 2
+                ? "Leaving will knock you out of the game and rank you below everyone still playing. Are you sure?"
+                : "Leaving will forfeit the game and your opponent will win. Are you sure?"}
+            </p>
             <div className="flex justify-end gap-2">
               <Button onClick={() => setShowLeaveConfirm(false)} variant="outline" disabled={leaving}>Cancel</Button>
               <Button onClick={confirmLeave} variant="destructive" disabled={leaving}>Leave & Forfeit</Button>
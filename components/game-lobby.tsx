@@ -2,17 +2,27 @@
 
 import { useState, useEffect, useCallback } from "react"
 import { signOut } from "firebase/auth"
-import { auth } from "@/lib/firebase"
+import { doc, onSnapshot } from "firebase/firestore"
+import { auth, db } from "@/lib/firebase"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
 import { useToast } from "@/hooks/use-toast"
 import GenericGameBoard from "@/components/game-board-generic"
-import { TicTacToeRenderer } from "@/components/game-renderers/tictactoe-renderer"
-import { ConnectFourRenderer } from "@/components/game-renderers/connect-four-renderer"
-import { matchmakingService } from "@/lib/matchmaking" // Use singleton instance
+import MatchHistory from "@/components/match-history"
+import ReplayViewer from "@/components/replay-viewer"
+import LiveMatches from "@/components/live-matches"
+import GameRendererLoader from "@/components/game-renderer-loader"
+import { hasRenderer } from "@/components/game-renderers/registry"
+import { matchmakingService, type CurrentSession, type MatchmakingStatus } from "@/lib/matchmaking" // Use singleton instance
 import { PresenceService, type UserPresence } from "@/lib/presence"
-import { Users, Trophy, LogOut, Target, Crown, Zap, Clock, Star, X, Search, AlertCircle } from "lucide-react"
+import { getRating, getRankTier } from "@/lib/ratings"
+import type { RoomOptions } from "@/shared/rules/types"
+import { Users, Trophy, LogOut, Target, Crown, Zap, Clock, Star, X, Search, AlertCircle, UserPlus, LogIn, History, Eye } from "lucide-react"
 
 interface UserProfile {
   uid: string
@@ -28,23 +38,37 @@ interface UserProfile {
     xp: number
     level: number
   }
+  ratings?: { [gameType: string]: number }
   preferences: {
     gameMode: string
     notifications: boolean
   }
 }
 
+// A setting the host can pick for a private room, as listed by the backend's getRoomOptions()
+type RoomOptionDefinition =
+  | { key: string; label: string; type: "boolean"; default: boolean }
+  | { key: string; label: string; type: "select"; default: string; choices: { value: string; label: string }[] }
+
 interface AvailableGame {
   type: string
   name: string
   minPlayers: number
   maxPlayers: number
+  options?: RoomOptionDefinition[]
 }
 
 interface GameLobbyProps {
   userProfile: UserProfile
 }
 
+// "1v1" for head-to-head games, otherwise how many players a match seats
+function formatPlayerCount(minPlayers: number, maxPlayers: number) {
+  if (maxPlayers === 2) return "1v1"
+  if (minPlayers === maxPlayers) return `${maxPlayers} players`
+  return `${minPlayers}-${maxPlayers} players`
+}
+
 export default function GameLobby({ userProfile }: GameLobbyProps) {
   const [availableGames, setAvailableGames] = useState<AvailableGame[]>([])
   const [selectedGame, setSelectedGame] = useState<string>("")
@@ -56,8 +80,25 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
   const [matchmakingUnsubscribe, setMatchmakingUnsubscribe] = useState<(() => void) | null>(null)
   const [resultScreenCooldown, setResultScreenCooldown] = useState<number>(0)
   const [isOnResultScreen, setIsOnResultScreen] = useState(false)
+  const [ratings, setRatings] = useState(userProfile.ratings || {})
+  const [searchStatus, setSearchStatus] = useState<MatchmakingStatus | null>(null)
+  const [inviteCode, setInviteCode] = useState("")
+  const [privateRoomBusy, setPrivateRoomBusy] = useState(false)
+  // Private room settings picked so far, per game type
+  const [roomOptions, setRoomOptions] = useState<{ [gameType: string]: RoomOptions }>({})
+  const [showHistory, setShowHistory] = useState(false)
+  const [replayMatch, setReplayMatch] = useState<{ matchId: string; gameType: string } | null>(null)
+  const [showLive, setShowLive] = useState(false)
+  const [spectating, setSpectating] = useState<{ roomId: string; gameType: string } | null>(null)
+  const [rejoinSession, setRejoinSession] = useState<CurrentSession | null>(null)
   const { toast } = useToast()
 
+  const selectedRating = getRating(ratings, selectedGame)
+  const selectedRoomOptions = availableGames.find((game) => game.type === selectedGame)?.options ?? []
+  const roomOptionValue = (option: RoomOptionDefinition) => roomOptions[selectedGame]?.[option.key] ?? option.default
+  const setRoomOption = (key: string, value: boolean | string) =>
+    setRoomOptions((current) => ({ ...current, [selectedGame]: { ...current[selectedGame], [key]: value } }))
+
   // Check if user can enter matchmaking
   const canEnterMatchmaking = !isOnResultScreen && resultScreenCooldown === 0
 
@@ -69,9 +110,10 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
         if (response.ok) {
           const games = await response.json();
           setAvailableGames(games);
-          // Set first available game as default
-          if (games.length > 0 && !selectedGame) {
-            setSelectedGame(games[0].type);
+          // Set first game this client can render as default
+          const firstPlayable = games.find((game: AvailableGame) => hasRenderer(game.type));
+          if (firstPlayable && !selectedGame) {
+            setSelectedGame(firstPlayable.type);
           }
         } else {
           console.error('Failed to fetch available games');
@@ -84,6 +126,17 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
     fetchAvailableGames();
   }, [selectedGame]);
 
+  // Keep ratings fresh after each game - the backend updates them when a match ends
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, "users", userProfile.uid), (snapshot) => {
+      const data = snapshot.data()
+      if (data?.ratings) {
+        setRatings(data.ratings)
+      }
+    })
+    return unsubscribe
+  }, [userProfile.uid])
+
   // Handle match found callback
   const handleMatchFound = useCallback((roomId: string) => {
     console.log(`🎉 Match found! Room ID: ${roomId}`)
@@ -105,6 +158,7 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
     
     setCurrentMatch(roomId)
     setMatchmaking(false)
+    setSearchStatus(null)
     setIsOnResultScreen(false) // Reset result screen state
     setResultScreenCooldown(0) // Reset cooldown
     presenceService.updateStatus("in-game", roomId)
@@ -121,6 +175,71 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
     })
   }, [presenceService, matchmakingUnsubscribe, toast, currentMatch, lastMatchmakingStart])
 
+  const enterPrivateRoom = useCallback((roomId: string) => {
+    setCurrentMatch(roomId)
+    setIsOnResultScreen(false)
+    setResultScreenCooldown(0)
+    presenceService.updateStatus("in-game", roomId)
+  }, [presenceService])
+
+  const joinPrivateRoom = useCallback(async (code: string) => {
+    setPrivateRoomBusy(true)
+    try {
+      const { roomId } = await matchmakingService.joinPrivateRoom(userProfile.username, code)
+      setInviteCode("")
+      enterPrivateRoom(roomId)
+      toast({
+        title: "🎉 Joined Room!",
+        description: "Starting game with your friend...",
+      })
+    } catch (error: any) {
+      console.error("❌ Error joining private room:", error)
+      toast({
+        title: "Could Not Join Room",
+        description: error.message || "Check the invite code and try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setPrivateRoomBusy(false)
+    }
+  }, [userProfile.username, enterPrivateRoom, toast])
+
+  // After a reload the backend may still have us seated in a game: finished games go straight
+  // back to their result screen, running ones are offered for rejoining
+  useEffect(() => {
+    matchmakingService.getCurrentSession().then((session) => {
+      if (!session) return
+      if (session.status === "finished") {
+        console.log(`🎭 Returning to result screen of ${session.roomId}`)
+        setCurrentMatch((current) => current ?? session.roomId)
+      } else {
+        console.log(`🔌 Found game in progress: ${session.roomId}`)
+        setRejoinSession(session)
+      }
+    })
+  }, []) // Only on first load
+
+  const handleRejoin = () => {
+    if (!rejoinSession) return
+    setSelectedGame(rejoinSession.gameType)
+    setCurrentMatch(rejoinSession.roomId)
+    setIsOnResultScreen(false)
+    setResultScreenCooldown(0)
+    presenceService.updateStatus("in-game", rejoinSession.roomId)
+    setRejoinSession(null)
+  }
+
+  // Deep links (/?join=CODE) drop the friend straight into the room
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const code = params.get("join")
+    if (!code) return
+    params.delete("join")
+    const query = params.toString()
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`)
+    joinPrivateRoom(code)
+  }, []) // Only on first load
+
   useEffect(() => {
     // Set user online when component mounts
     presenceService.goOnline()
@@ -204,12 +323,13 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
 
     setMatchmaking(true)
     setLastMatchmakingStart(Date.now())
+    setRejoinSession(null)
 
     try {
       console.log("🎮 Starting matchmaking for:", selectedGame)
 
       // Start listening for match updates first
-      const unsubscribe = matchmakingService.listenForMatch(userProfile.uid, selectedGame, handleMatchFound)
+      const unsubscribe = matchmakingService.listenForMatch(userProfile.uid, selectedGame, handleMatchFound, setSearchStatus)
       setMatchmakingUnsubscribe(() => unsubscribe)
 
       // Then call the matchmaking API
@@ -230,6 +350,7 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
     } catch (error: any) {
       console.error("❌ Matchmaking error:", error)
       setMatchmaking(false)
+      setSearchStatus(null)
       
       // Clean up listener on error
       if (matchmakingUnsubscribe) {
@@ -257,6 +378,7 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
       }
 
       setMatchmaking(false)
+      setSearchStatus(null)
 
       toast({
         title: "❌ Matchmaking Cancelled",
@@ -266,6 +388,7 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
       console.error("❌ Error cancelling matchmaking:", error)
       // Still update UI state even if backend call fails
       setMatchmaking(false)
+      setSearchStatus(null)
       if (matchmakingUnsubscribe) {
         matchmakingUnsubscribe()
         setMatchmakingUnsubscribe(null)
@@ -273,6 +396,37 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
     }
   }
 
+  const handleCreatePrivateRoom = async () => {
+    if (!selectedGame || matchmaking) return
+    setPrivateRoomBusy(true)
+    try {
+      const { roomId } = await matchmakingService.createPrivateRoom(
+        userProfile.username,
+        selectedGame,
+        roomOptions[selectedGame]
+      )
+      enterPrivateRoom(roomId)
+    } catch (error: any) {
+      console.error("❌ Error creating private room:", error)
+      toast({
+        title: "Could Not Create Room",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setPrivateRoomBusy(false)
+    }
+  }
+
+  // Both players accepted a rematch: switch straight to the new room
+  const handleRematch = useCallback((roomId: string) => {
+    console.log(`🔁 Rematch started in room ${roomId}`)
+    setIsOnResultScreen(false)
+    setResultScreenCooldown(0)
+    setCurrentMatch(roomId)
+    presenceService.updateStatus("in-game", roomId)
+  }, [presenceService])
+
   const handleLeaveGame = async () => {
     console.log(`🚪 Leaving game, clearing currentMatch: ${currentMatch}`)
     
@@ -328,31 +482,73 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
     const gameType = parts.slice(0, -2).join('-');
     console.log("🎮 Extracted game type:", gameType);
     
-    // Get the appropriate renderer based on game type
-    let gameRenderer;
-    switch (gameType) {
-      case 'tictactoe':
-        gameRenderer = new TicTacToeRenderer();
-        break;
-      case 'connect-four':
-        gameRenderer = new ConnectFourRenderer();
-        break;
-      default:
-        console.warn("⚠️ Unknown game type:", gameType, "falling back to Tic Tac Toe renderer");
-        // Fallback to Tic Tac Toe renderer for unknown game types
-        gameRenderer = new TicTacToeRenderer();
-        break;
-    }
-    
     return (
-      <GenericGameBoard 
-        gameType={gameType}
-        roomId={currentMatch} 
-        user={userProfile} 
-        onLeave={handleLeaveGame}
-        onResultScreenEnter={handleResultScreenEnter}
-        onResultScreenLeave={handleResultScreenLeave}
-        gameRenderer={gameRenderer}
+      <GameRendererLoader key={currentMatch} gameType={gameType} onBack={handleLeaveGame}>
+        {(gameRenderer) => (
+          <GenericGameBoard 
+            gameType={gameType}
+            roomId={currentMatch} 
+            user={userProfile} 
+            onLeave={handleLeaveGame}
+            onResultScreenEnter={handleResultScreenEnter}
+            onResultScreenLeave={handleResultScreenLeave}
+            onRematch={handleRematch}
+            gameRenderer={gameRenderer}
+          />
+        )}
+      </GameRendererLoader>
+    )
+  }
+
+  if (spectating) {
+    return (
+      <GameRendererLoader key={spectating.roomId} gameType={spectating.gameType} onBack={() => setSpectating(null)}>
+        {(gameRenderer) => (
+          <GenericGameBoard
+            gameType={spectating.gameType}
+            roomId={spectating.roomId}
+            user={userProfile}
+            onLeave={() => setSpectating(null)}
+            gameRenderer={gameRenderer}
+            spectator
+          />
+        )}
+      </GameRendererLoader>
+    )
+  }
+
+  if (showLive) {
+    return (
+      <LiveMatches
+        userId={userProfile.uid}
+        onWatch={(match) => setSpectating({ roomId: match.roomId, gameType: match.gameType })}
+        onBack={() => setShowLive(false)}
+      />
+    )
+  }
+
+  if (replayMatch) {
+    return (
+      <GameRendererLoader gameType={replayMatch.gameType} onBack={() => setReplayMatch(null)}>
+        {(gameRenderer) => (
+          <ReplayViewer
+            matchId={replayMatch.matchId}
+            user={userProfile}
+            gameRenderer={gameRenderer}
+            onBack={() => setReplayMatch(null)}
+          />
+        )}
+      </GameRendererLoader>
+    )
+  }
+
+  if (showHistory) {
+    return (
+      <MatchHistory
+        userId={userProfile.uid}
+        gameNames={Object.fromEntries(availableGames.map((game) => [game.type, game.name]))}
+        onBack={() => setShowHistory(false)}
+        onReplay={(match) => setReplayMatch({ matchId: match.matchId, gameType: match.gameType })}
       />
     )
   }
@@ -382,7 +578,29 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
                   {onlineUsers.length} online
                 </span>
               </div>
+
+              <Button
+                onClick={() => setShowLive(true)}
+                disabled={matchmaking}
+                variant="ghost"
+                size="sm"
+                className="text-slate-400 hover:text-white hover:bg-slate-800"
+              >
+                <Eye className="w-4 h-4 mr-2" />
+                Watch
+              </Button>
               
+              <Button
+                onClick={() => setShowHistory(true)}
+                disabled={matchmaking}
+                variant="ghost"
+                size="sm"
+                className="text-slate-400 hover:text-white hover:bg-slate-800"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
+
               <Button
                 onClick={handleLogout}
                 variant="ghost"
@@ -399,6 +617,29 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {rejoinSession && !matchmaking && (
+          <Card className="mb-8 bg-blue-500/10 border-blue-500/30 backdrop-blur">
+            <CardContent className="flex items-center justify-between gap-4 py-4">
+              <div>
+                <p className="font-semibold text-slate-100">Rejoin your game</p>
+                <p className="text-sm text-slate-400">
+                  {rejoinSession.status === "waiting"
+                    ? `Your private ${rejoinSession.gameName} room is still waiting for a friend`
+                    : `${rejoinSession.gameName} against ${
+                        rejoinSession.players
+                          .filter((player) => player.userId !== userProfile.uid)
+                          .map((player) => player.name)
+                          .join(", ") || "your opponent"
+                      } is still in progress`}
+                </p>
+              </div>
+              <Button onClick={handleRejoin} className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white">
+                <LogIn className="w-4 h-4 mr-2" />
+                Rejoin
+              </Button>
+            </CardContent>
+          </Card>
+        )}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Game Selection */}
           <div className="lg:col-span-2">
@@ -410,15 +651,20 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {availableGames.map((game) => (
+                {availableGames.map((game) => {
+                  // The backend can ship a game before this client has a renderer for it
+                  const supported = hasRenderer(game.type)
+                  return (
                   <div
                     key={game.type}
-                    className={`p-4 rounded-lg border-2 cursor-pointer transition-all duration-200 ${
-                      selectedGame === game.type
-                        ? "border-blue-500 bg-blue-500/10"
-                        : "border-slate-700 bg-slate-800/30 hover:border-slate-600"
+                    className={`p-4 rounded-lg border-2 transition-all duration-200 ${
+                      !supported
+                        ? "border-slate-800 bg-slate-800/10 opacity-50 cursor-not-allowed"
+                        : selectedGame === game.type
+                        ? "border-blue-500 bg-blue-500/10 cursor-pointer"
+                        : "border-slate-700 bg-slate-800/30 hover:border-slate-600 cursor-pointer"
                     }`}
-                    onClick={() => setSelectedGame(game.type)}
+                    onClick={() => supported && setSelectedGame(game.type)}
                   >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-3">
@@ -426,18 +672,25 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
                         <div>
                           <h3 className="font-semibold text-slate-100">{game.name}</h3>
                           <p className="text-sm text-slate-400">
-                            {game.minPlayers}v{game.maxPlayers}
+                            {formatPlayerCount(game.minPlayers, game.maxPlayers)}
                           </p>
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <Badge variant="secondary" className="text-xs">
-                          {game.minPlayers}v{game.maxPlayers}
-                        </Badge>
+                        {supported ? (
+                          <Badge variant="secondary" className="text-xs">
+                            {formatPlayerCount(game.minPlayers, game.maxPlayers)}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">
+                            Update required
+                          </Badge>
+                        )}
                       </div>
                     </div>
                   </div>
-                ))}
+                  )
+                })}
               </CardContent>
             </Card>
           </div>
@@ -476,7 +729,9 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
                   </div>
                   <div className="bg-slate-800/50 rounded-lg p-3">
                     <div className="text-slate-400">Rank</div>
-                    <div className="text-slate-100 font-semibold">{userProfile.stats.rank}</div>
+                    <div className="text-slate-100 font-semibold">
+                      {getRankTier(selectedRating)} <span className="text-slate-400 font-normal">({selectedRating})</span>
+                    </div>
                   </div>
                   <div className="bg-slate-800/50 rounded-lg p-3">
                     <div className="text-slate-400">XP</div>
@@ -534,6 +789,30 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-400"></div>
                       <span>Searching for opponent...</span>
                     </div>
+                    {searchStatus?.queued && searchStatus.searchWindow && (
+                      <div className="bg-slate-800/50 rounded-lg p-3 text-xs text-slate-400 space-y-1">
+                        <div className="flex justify-between">
+                          <span>Rating range</span>
+                          <span className="text-slate-200">
+                            {searchStatus.searchWindow.min} – {searchStatus.searchWindow.max}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Waiting</span>
+                          <span className="text-slate-200">{searchStatus.waitSeconds}s</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Estimated wait</span>
+                          <span className="text-slate-200">
+                            {searchStatus.estimatedWaitSeconds == null
+                              ? "Unknown"
+                              : searchStatus.estimatedWaitSeconds === 0
+                              ? "Any moment"
+                              : `~${searchStatus.estimatedWaitSeconds}s`}
+                          </span>
+                        </div>
+                      </div>
+                    )}
                     <Button
                       onClick={handleCancelMatchmaking}
                       variant="outline"
@@ -547,6 +826,84 @@ export default function GameLobby({ userProfile }: GameLobbyProps) {
               </CardContent>
             </Card>
 
+            {/* Private Rooms */}
+            <Card className="bg-slate-900/50 border-slate-800 backdrop-blur">
+              <CardHeader>
+                <CardTitle className="text-lg text-slate-100 flex items-center gap-2">
+                  <UserPlus className="w-5 h-5" />
+                  Play with a Friend
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {selectedRoomOptions.length > 0 && (
+                  <div className="space-y-3 rounded-lg bg-slate-800/30 p-3">
+                    {selectedRoomOptions.map((option) =>
+                      option.type === "boolean" ? (
+                        <div key={option.key} className="flex items-center justify-between gap-3">
+                          <Label htmlFor={`room-option-${option.key}`} className="text-sm text-slate-300">
+                            {option.label}
+                          </Label>
+                          <Switch
+                            id={`room-option-${option.key}`}
+                            checked={roomOptionValue(option) === true}
+                            onCheckedChange={(checked) => setRoomOption(option.key, checked)}
+                          />
+                        </div>
+                      ) : (
+                        <div key={option.key} className="flex items-center justify-between gap-3">
+                          <Label className="text-sm text-slate-300">{option.label}</Label>
+                          <Select value={String(roomOptionValue(option))} onValueChange={(value) => setRoomOption(option.key, value)}>
+                            <SelectTrigger className="w-32 bg-slate-800/50 border-slate-700 text-slate-100">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {option.choices.map((choice) => (
+                                <SelectItem key={choice.value} value={choice.value}>
+                                  {choice.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )
+                    )}
+                  </div>
+                )}
+                <Button
+                  onClick={handleCreatePrivateRoom}
+                  variant="outline"
+                  className="w-full border-slate-600 text-slate-300 hover:bg-slate-800"
+                  disabled={!selectedGame || matchmaking || privateRoomBusy || !canEnterMatchmaking}
+                >
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Create Private Room
+                </Button>
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    if (inviteCode.trim()) joinPrivateRoom(inviteCode)
+                  }}
+                >
+                  <Input
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                    placeholder="Invite code"
+                    maxLength={6}
+                    className="bg-slate-800/50 border-slate-700 text-slate-100 uppercase tracking-widest"
+                  />
+                  <Button
+                    type="submit"
+                    variant="secondary"
+                    disabled={!inviteCode.trim() || matchmaking || privateRoomBusy || !canEnterMatchmaking}
+                  >
+                    <LogIn className="w-4 h-4 mr-2" />
+                    Join
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
             {/* Online Players */}
             <Card className="bg-slate-900/50 border-slate-800 backdrop-blur">
               <CardHeader>
@@ -0,0 +1,54 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Puzzle } from "lucide-react"
+import { useGameRenderer } from "@/hooks/use-game-renderer"
+import type { AnyGameRenderer } from "@/components/game-renderers/types"
+
+interface GameRendererLoaderProps {
+  gameType: string
+  onBack: () => void
+  children: (renderer: AnyGameRenderer) => React.ReactNode
+}
+
+// Loads the renderer for a game type and shows an explicit screen when this client cannot draw the game
+export default function GameRendererLoader({ gameType, onBack, children }: GameRendererLoaderProps) {
+  const { renderer, status } = useGameRenderer(gameType)
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!renderer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-2">
+              <Puzzle className="w-10 h-10 text-slate-400" />
+            </div>
+            <CardTitle>Game not supported</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {status === "error"
+                ? `The board for "${gameType}" failed to load. Check your connection and try again.`
+                : `This version of the app can't display "${gameType}" games yet. Try refreshing to get the latest version.`}
+            </p>
+            <Button onClick={onBack} variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Lobby
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return <>{children(renderer)}</>
+}
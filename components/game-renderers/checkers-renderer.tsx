@@ -0,0 +1,272 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Crown } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  checkersRules,
+  isDarkSquare,
+  CHECKERS_SIZE,
+  type CheckersMove,
+  type CheckersPiece,
+  type CheckersSquare,
+  type CheckersState,
+} from "@/shared/rules/checkers"
+import type { GameRenderer, GameUser, PlayersMap } from "./types"
+
+type GameState = CheckersState
+
+// Time the moving piece rests on each square of an animated move
+const ANIMATION_STEP_MS = 250
+
+const PIECE_NAMES = ["Black", "Red"]
+
+function sameSquare(a: CheckersSquare, b: CheckersSquare) {
+  return a[0] === b[0] && a[1] === b[1]
+}
+
+function isCaptureMove(move: CheckersMove) {
+  return Math.abs(move.path[0][0] - move.from[0]) === 2
+}
+
+// The board as it looked `step` squares into the last move: the moving piece on its step-th
+// square (before being crowned) and the pieces it has not jumped yet still standing
+function boardAtStep(gameState: GameState, step: number): (CheckersPiece | null)[][] {
+  const { lastMove } = gameState
+  if (!lastMove || step >= lastMove.path.length) return gameState.board
+
+  const board = gameState.board.map((row) => [...row])
+  const [toRow, toCol] = lastMove.path[lastMove.path.length - 1]
+  const piece = board[toRow][toCol]
+  if (!piece) return gameState.board
+  board[toRow][toCol] = null
+  const [row, col] = step === 0 ? lastMove.from : lastMove.path[step - 1]
+  board[row][col] = { ...piece, king: piece.king && !lastMove.crowned }
+  lastMove.captured.forEach(([capturedRow, capturedCol], hop) => {
+    if (hop >= step) {
+      board[capturedRow][capturedCol] = { player: 1 - lastMove.player, king: lastMove.capturedKings[hop] }
+    }
+  })
+  return board
+}
+
+interface CheckersBoardProps {
+  gameState: GameState
+  onMove: (moveData: CheckersMove) => void
+  userId: string
+  loading: boolean
+}
+
+// Select a piece, then click its destinations one hop at a time; a move is sent once the
+// clicked squares complete a legal move, so a multi-jump takes one click per jump
+function CheckersBoard({ gameState, onMove, userId, loading }: CheckersBoardProps) {
+  const [selected, setSelected] = useState<CheckersSquare | null>(null)
+  const [partialPath, setPartialPath] = useState<CheckersSquare[]>([])
+  const [animationStep, setAnimationStep] = useState<number | null>(null)
+
+  const legalMoves = useMemo(() => checkersRules.legalMoves(gameState, userId), [gameState, userId])
+  const mustCapture = legalMoves.length > 0 && isCaptureMove(legalMoves[0])
+
+  // Player 1 sees the board from their side
+  const flipped = gameState.players[1]?.userId === userId
+
+  // Animate each new last move, but not the one already on the board when the game opens
+  const lastMoveKey = gameState.lastMove ? JSON.stringify(gameState.lastMove) : null
+  const seenMoveKey = useRef(lastMoveKey)
+  useEffect(() => {
+    if (!gameState.lastMove || lastMoveKey === seenMoveKey.current) return
+    seenMoveKey.current = lastMoveKey
+    setSelected(null)
+    setPartialPath([])
+    const steps = gameState.lastMove.path.length
+    setAnimationStep(0)
+    const timers = Array.from({ length: steps }, (_, i) =>
+      setTimeout(() => setAnimationStep(i + 1 < steps ? i + 1 : null), ANIMATION_STEP_MS * (i + 1))
+    )
+    return () => timers.forEach(clearTimeout)
+  }, [lastMoveKey])
+
+  // Moves that continue what has been clicked so far
+  const candidates = selected
+    ? legalMoves.filter(
+        (move) =>
+          sameSquare(move.from, selected) &&
+          move.path.length > partialPath.length &&
+          partialPath.every((square, i) => sameSquare(square, move.path[i]))
+      )
+    : []
+  const destinations = candidates.map((move) => move.path[partialPath.length])
+  const movable = legalMoves.map((move) => move.from)
+  const position = partialPath.length > 0 ? partialPath[partialPath.length - 1] : selected
+
+  // Mid-jump, the selected piece is drawn on the last square clicked
+  let board = animationStep === null ? gameState.board : boardAtStep(gameState, animationStep)
+  if (selected && position && partialPath.length > 0) {
+    board = board.map((row) => [...row])
+    board[position[0]][position[1]] = board[selected[0]][selected[1]]
+    board[selected[0]][selected[1]] = null
+  }
+
+  const handleClick = (square: CheckersSquare) => {
+    if (loading || animationStep !== null) return
+
+    if (destinations.some((destination) => sameSquare(destination, square))) {
+      const path = [...partialPath, square]
+      const complete = candidates.find(
+        (move) => move.path.length === path.length && path.every((step, i) => sameSquare(step, move.path[i]))
+      )
+      if (complete) {
+        onMove({ from: complete.from, path: complete.path })
+        setSelected(null)
+        setPartialPath([])
+      } else {
+        setPartialPath(path)
+      }
+      return
+    }
+
+    // Start over with another piece, or drop the selection
+    if (partialPath.length === 0 && movable.some((from) => sameSquare(from, square)) && !(selected && sameSquare(selected, square))) {
+      setSelected(square)
+    } else {
+      setSelected(null)
+    }
+    setPartialPath([])
+  }
+
+  const rows = Array.from({ length: CHECKERS_SIZE }, (_, i) => (flipped ? CHECKERS_SIZE - 1 - i : i))
+  const cols = Array.from({ length: CHECKERS_SIZE }, (_, i) => (flipped ? CHECKERS_SIZE - 1 - i : i))
+  const lastMove = animationStep === null ? gameState.lastMove : null
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      <div className="grid grid-cols-8 border-4 border-amber-900 rounded">
+        {rows.map((row) =>
+          cols.map((col) => {
+            const square: CheckersSquare = [row, col]
+            const piece = board[row][col]
+            const dark = isDarkSquare(row, col)
+            const isDestination = destinations.some((destination) => sameSquare(destination, square))
+            const isPosition = !!position && sameSquare(position, square)
+            const isOnPath = partialPath.some((step) => sameSquare(step, square))
+            const isMovable = movable.some((from) => sameSquare(from, square))
+            const wasLastMove =
+              !!lastMove && (sameSquare(lastMove.from, square) || lastMove.path.some((step) => sameSquare(step, square)))
+
+            return (
+              <button
+                key={`${row}-${col}`}
+                onClick={() => handleClick(square)}
+                disabled={!dark || loading || legalMoves.length === 0}
+                className={`w-11 h-11 sm:w-12 sm:h-12 flex items-center justify-center relative
+                  ${dark ? "bg-amber-800" : "bg-amber-100"}
+                  ${wasLastMove ? "ring-2 ring-inset ring-yellow-300/70" : ""}
+                  ${isPosition || isOnPath ? "ring-2 ring-inset ring-blue-400" : ""}
+                `}
+              >
+                {isDestination && <div className="absolute w-4 h-4 rounded-full bg-green-400/80" />}
+                {piece && (
+                  <div
+                    className={`w-9 h-9 sm:w-10 sm:h-10 rounded-full border-4 flex items-center justify-center shadow-md transition-transform
+                      ${piece.player === 0 ? "bg-gray-900 border-gray-700" : "bg-red-600 border-red-800"}
+                      ${isMovable && !selected ? "ring-2 ring-green-400" : ""}
+                      ${selected && sameSquare(selected, square) && partialPath.length === 0 ? "scale-110 ring-2 ring-blue-400" : ""}
+                    `}
+                  >
+                    {piece.king && <Crown className="w-5 h-5 text-yellow-400" />}
+                  </div>
+                )}
+              </button>
+            )
+          })
+        )}
+      </div>
+      {mustCapture && !gameState.finished && (
+        <div className="text-sm text-yellow-500">You must capture{partialPath.length > 0 ? " — keep jumping" : ""}</div>
+      )}
+    </div>
+  )
+}
+
+export class CheckersRenderer implements GameRenderer<GameState, CheckersMove> {
+  rules = checkersRules
+
+  renderBoard(gameState: GameState, onMove: (move: CheckersMove) => void, user: GameUser, loading: boolean) {
+    return <CheckersBoard gameState={gameState} onMove={onMove} userId={user.uid} loading={loading} />
+  }
+
+  renderStatus(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const playerIndex = gameState.players.findIndex((player) => player.userId === user.uid)
+
+    if (gameState.finished) {
+      if (gameState.isDraw) {
+        const reason =
+          gameState.drawReason === "repetition"
+            ? "the same position came up three times"
+            : gameState.drawReason === "no-progress"
+              ? "40 moves each without a capture or a man moving"
+              : null
+        return (
+          <div className="text-lg font-bold text-yellow-500">
+            🤝 It's a draw!{reason && <span className="block text-sm font-normal text-slate-400">{reason}</span>}
+          </div>
+        )
+      }
+      const winnerName = players[gameState.winner!.userId]?.name || gameState.winner!.username
+      const isWinner = gameState.winner!.userId === user.uid
+      return (
+        <div className={`text-lg font-bold ${isWinner ? "text-green-600" : "text-red-600"}`}>
+          🎉 {winnerName} wins!
+        </div>
+      )
+    }
+
+    const current = gameState.players[gameState.currentPlayer]
+    const currentName = players[current?.userId]?.name || current?.username || "your opponent"
+
+    return (
+      <div className="text-md text-slate-300">
+        {playerIndex === -1 ? (
+          <span>Spectating</span>
+        ) : playerIndex === gameState.currentPlayer ? (
+          <span>Your turn - move a {PIECE_NAMES[playerIndex].toLowerCase()} piece</span>
+        ) : (
+          <span>Waiting for {currentName}...</span>
+        )}
+      </div>
+    )
+  }
+
+  renderPlayers(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const pieceCounts = [0, 0]
+    for (const piece of gameState.board.flat()) {
+      if (piece) pieceCounts[piece.player]++
+    }
+
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        {gameState.players.map((player, index) => (
+          <Card key={player.userId} className={player.userId === user.uid ? (index === 0 ? "ring-2 ring-gray-500" : "ring-2 ring-red-500") : ""}>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-3">
+                <div
+                  className={`w-10 h-10 rounded-full border-4 ${index === 0 ? "bg-gray-900 border-gray-700" : "bg-red-600 border-red-800"}`}
+                />
+                <div>
+                  <p className="font-medium">{players[player.userId]?.name || player.username}</p>
+                  <p className="text-sm text-gray-500">
+                    {PIECE_NAMES[index]} · {pieceCounts[index]} pieces
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    )
+  }
+
+  isGameFinished(gameState: GameState): boolean {
+    return gameState.finished
+  }
+}
@@ -0,0 +1,277 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  chessRules,
+  chessPgn,
+  squareName,
+  type ChessEndReason,
+  type ChessMove,
+  type ChessPieceType,
+  type ChessPromotion,
+  type ChessState,
+} from "@/shared/rules/chess"
+import type { GameExport, GameExportSession, GameRenderer, GameUser, PlayersMap } from "./types"
+
+type GameState = ChessState
+
+const PIECE_GLYPHS: Record<ChessPieceType, string> = { k: "♚", q: "♛", r: "♜", b: "♝", n: "♞", p: "♟" }
+const PROMOTION_CHOICES: ChessPromotion[] = ["q", "r", "b", "n"]
+const COLOR_NAMES = ["White", "Black"]
+
+const END_REASONS: Record<ChessEndReason, string> = {
+  checkmate: "Checkmate",
+  stalemate: "Stalemate",
+  repetition: "Draw by threefold repetition",
+  "fifty-move": "Draw by the fifty-move rule",
+  "insufficient-material": "Draw by insufficient material",
+}
+
+// PGN Termination tag for how the session ended
+const PGN_TERMINATIONS: { [endReason: string]: string } = {
+  timeout: "time forfeit",
+  abandoned: "abandoned",
+  forfeit: "abandoned",
+}
+
+function PieceGlyph({ type, color }: { type: ChessPieceType; color: "w" | "b" }) {
+  return (
+    <span
+      className={`text-3xl sm:text-4xl leading-none select-none ${color === "w" ? "text-white" : "text-gray-900"}`}
+      style={{ textShadow: color === "w" ? "0 0 2px #000, 0 0 1px #000" : "0 0 1px #fff" }}
+    >
+      {PIECE_GLYPHS[type]}
+    </span>
+  )
+}
+
+interface ChessBoardProps {
+  gameState: GameState
+  onMove: (moveData: ChessMove) => void
+  userId: string
+  loading: boolean
+}
+
+function ChessBoard({ gameState, onMove, userId, loading }: ChessBoardProps) {
+  const [selected, setSelected] = useState<string | null>(null)
+  const [promotionMove, setPromotionMove] = useState<ChessMove | null>(null)
+
+  const legalMoves = useMemo(() => chessRules.legalMoves(gameState, userId), [gameState, userId])
+  const historyLength = gameState.history.length
+
+  // A new position clears whatever was selected on the old one
+  useEffect(() => {
+    setSelected(null)
+    setPromotionMove(null)
+  }, [historyLength])
+
+  // Black sees the board from their side
+  const flipped = gameState.players[1]?.userId === userId
+  const targets = new Set(legalMoves.filter((move) => move.from === selected).map((move) => move.to))
+  const movable = new Set(legalMoves.map((move) => move.from))
+  const sideToMove = gameState.currentPlayer === 0 ? "w" : "b"
+
+  const handleClick = (square: string) => {
+    if (loading || promotionMove) return
+    if (selected && targets.has(square)) {
+      const moves = legalMoves.filter((move) => move.from === selected && move.to === square)
+      if (moves.some((move) => move.promotion)) {
+        setPromotionMove({ from: selected, to: square })
+      } else {
+        onMove({ from: selected, to: square })
+      }
+      setSelected(null)
+      return
+    }
+    setSelected(movable.has(square) && square !== selected ? square : null)
+  }
+
+  const indices = Array.from({ length: 8 }, (_, i) => (flipped ? 7 - i : i))
+
+  // Moves in pairs for the move list: 1. e4 e5
+  const movePairs: string[][] = []
+  gameState.history.forEach((entry, ply) => {
+    if (ply % 2 === 0) movePairs.push([entry.san])
+    else movePairs[movePairs.length - 1].push(entry.san)
+  })
+
+  return (
+    <div className="flex flex-col items-center space-y-4">
+      <div className="relative">
+        <div className="grid grid-cols-8 border-4 border-amber-900 rounded">
+          {indices.map((row) =>
+            indices.map((col) => {
+              const square = squareName([row, col])
+              const piece = gameState.board[row][col]
+              const light = (row + col) % 2 === 0
+              const isLastMove = gameState.lastMove?.from === square || gameState.lastMove?.to === square
+              const isCheckedKing = gameState.check && piece?.type === "k" && piece.color === sideToMove
+              const isTarget = targets.has(square)
+              const background = isCheckedKing
+                ? "bg-red-500"
+                : isLastMove
+                  ? light ? "bg-yellow-200" : "bg-yellow-500"
+                  : light ? "bg-amber-100" : "bg-amber-600"
+
+              return (
+                <button
+                  key={square}
+                  onClick={() => handleClick(square)}
+                  disabled={loading || legalMoves.length === 0}
+                  className={`w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center relative
+                    ${background}
+                    ${selected === square ? "ring-4 ring-inset ring-blue-500" : ""}
+                  `}
+                >
+                  {piece && <PieceGlyph type={piece.type} color={piece.color} />}
+                  {isTarget && (
+                    <div
+                      className={`absolute rounded-full ${piece ? "inset-0.5 border-4 border-green-500/70" : "w-3 h-3 bg-green-500/70"}`}
+                    />
+                  )}
+                  {col === indices[0] && (
+                    <span className="absolute top-0 left-0.5 text-[10px] text-amber-900/70">{8 - row}</span>
+                  )}
+                  {row === indices[7] && (
+                    <span className="absolute bottom-0 right-0.5 text-[10px] text-amber-900/70">{"abcdefgh"[col]}</span>
+                  )}
+                </button>
+              )
+            })
+          )}
+        </div>
+
+        {promotionMove && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded">
+            <div className="bg-slate-800 rounded-lg p-3 space-y-2 text-center">
+              <p className="text-sm text-slate-200">Promote to</p>
+              <div className="flex gap-2">
+                {PROMOTION_CHOICES.map((promotion) => (
+                  <button
+                    key={promotion}
+                    onClick={() => {
+                      onMove({ ...promotionMove, promotion })
+                      setPromotionMove(null)
+                    }}
+                    className="w-12 h-12 rounded bg-amber-100 hover:bg-amber-200 flex items-center justify-center"
+                  >
+                    <PieceGlyph type={promotion} color={sideToMove} />
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => setPromotionMove(null)} className="text-xs text-slate-400 hover:text-slate-200">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {movePairs.length > 0 && (
+        <div className="w-full max-w-sm max-h-32 overflow-y-auto rounded-lg bg-slate-800/50 p-2 text-sm font-mono">
+          <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-x-2">
+            {movePairs.map(([white, black], i) => (
+              <div key={i} className="contents">
+                <span className="text-slate-500">{i + 1}.</span>
+                <span className="text-slate-200">{white}</span>
+                <span className="text-slate-200">{black ?? ""}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export class ChessRenderer implements GameRenderer<GameState, ChessMove> {
+  rules = chessRules
+
+  renderBoard(gameState: GameState, onMove: (move: ChessMove) => void, user: GameUser, loading: boolean) {
+    return <ChessBoard gameState={gameState} onMove={onMove} userId={user.uid} loading={loading} />
+  }
+
+  renderStatus(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const playerIndex = gameState.players.findIndex((player) => player.userId === user.uid)
+
+    if (gameState.finished) {
+      const reason = gameState.endReason ? END_REASONS[gameState.endReason] : null
+      if (gameState.isDraw) {
+        return <div className="text-lg font-bold text-yellow-500">🤝 {reason || "It's a draw!"}</div>
+      }
+      const winnerName = players[gameState.winner!.userId]?.name || gameState.winner!.username
+      const isWinner = gameState.winner!.userId === user.uid
+      return (
+        <div className={`text-lg font-bold ${isWinner ? "text-green-600" : "text-red-600"}`}>
+          🎉 {reason ? `${reason} - ` : ""}{winnerName} wins!
+        </div>
+      )
+    }
+
+    const current = gameState.players[gameState.currentPlayer]
+    const currentName = players[current?.userId]?.name || current?.username || "your opponent"
+    const check = gameState.check ? <span className="font-bold text-red-500">Check! </span> : null
+
+    return (
+      <div className="text-md text-slate-300">
+        {check}
+        {playerIndex === -1 ? (
+          <span>Spectating - {COLOR_NAMES[gameState.currentPlayer]} to move</span>
+        ) : playerIndex === gameState.currentPlayer ? (
+          <span>Your move ({COLOR_NAMES[playerIndex]})</span>
+        ) : (
+          <span>Waiting for {currentName}...</span>
+        )}
+      </div>
+    )
+  }
+
+  renderPlayers(gameState: GameState, players: PlayersMap, user: GameUser) {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        {gameState.players.map((player, index) => (
+          <Card key={player.userId} className={player.userId === user.uid ? "ring-2 ring-amber-500" : ""}>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 rounded-full bg-amber-100 flex items-center justify-center">
+                  <PieceGlyph type="k" color={index === 0 ? "w" : "b"} />
+                </div>
+                <div>
+                  <p className="font-medium">{players[player.userId]?.name || player.username}</p>
+                  <p className="text-sm text-gray-500">{COLOR_NAMES[index]}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    )
+  }
+
+  isGameFinished(gameState: GameState): boolean {
+    return gameState.finished
+  }
+
+  exportGame(gameState: GameState, session: GameExportSession): GameExport {
+    const [white, black] = gameState.players
+    const winnerIds = session.result?.winnerIds ?? []
+    let result = "*"
+    if (session.result?.isDraw) result = "1/2-1/2"
+    else if (winnerIds.includes(white.userId)) result = "1-0"
+    else if (winnerIds.includes(black.userId)) result = "0-1"
+
+    return {
+      label: "PGN",
+      filename: `chess-${session.roomId}.pgn`,
+      mimeType: "application/x-chess-pgn",
+      content: chessPgn(gameState, {
+        white: session.players[white.userId]?.name || white.username,
+        black: session.players[black.userId]?.name || black.username,
+        result,
+        date: session.startedAt ? new Date(session.startedAt) : undefined,
+        termination: session.endReason ? PGN_TERMINATIONS[session.endReason] ?? "normal" : undefined,
+      }),
+    }
+  }
+}
@@ -1,31 +1,17 @@
 "use client"
 
 import { Card, CardContent } from "@/components/ui/card"
+import { connectFourRules, CONNECT_FOUR_COLUMNS, type ConnectFourMove, type ConnectFourState } from "@/shared/rules/connect-four"
+import type { GameRenderer, GameUser, PlayersMap } from "./types"
 
-interface GameState {
-  board: (number | null)[][]
-  currentPlayer: number
-  finished: boolean
-  winner: { userId: string; username: string } | null
-  isDraw: boolean
-  players: { userId: string; username: string }[]
-}
+type GameState = ConnectFourState
 
-interface Player {
-  name: string
-  email?: string
-}
+export class ConnectFourRenderer implements GameRenderer<GameState, ConnectFourMove> {
+  rules = connectFourRules
 
-interface MockUser {
-  uid: string
-  email: string
-  displayName: string
-}
-
-export class ConnectFourRenderer {
-  renderBoard(gameState: GameState, onMove: (moveData: any) => void, user: MockUser, loading: boolean) {
+  renderBoard(gameState: GameState, onMove: (move: ConnectFourMove) => void, user: GameUser, loading: boolean) {
     const { board } = gameState;
-    const isPlayer = gameState.players.some(p => p.userId === user.uid);
+    const legalColumns = new Set(this.rules.legalMoves(gameState, user.uid).map(move => move.column));
     
     return (
       <div className="flex flex-col items-center space-y-4">
@@ -35,8 +21,8 @@ export class ConnectFourRenderer {
               <button
                 key={`${rowIndex}-${colIndex}`}
                 onClick={() => !loading && onMove({ column: colIndex })}
-                disabled={loading || this.isGameFinished(gameState) || !isPlayer}
-                className="w-12 h-12 rounded-full border-2 border-blue-800 flex items-center justify-center hover:bg-blue-500 transition-colors"
+                disabled={loading || !legalColumns.has(colIndex)}
+                className="w-12 h-12 rounded-full border-2 border-blue-800 flex items-center justify-center enabled:hover:bg-blue-500 transition-colors"
               >
                 {cell !== null && (
                   <div
@@ -52,11 +38,11 @@ export class ConnectFourRenderer {
         
         {/* Column indicators */}
         <div className="grid grid-cols-7 gap-1">
-          {Array(7).fill(null).map((_, colIndex) => (
+          {Array(CONNECT_FOUR_COLUMNS).fill(null).map((_, colIndex) => (
             <button
               key={colIndex}
               onClick={() => !loading && onMove({ column: colIndex })}
-              disabled={loading || this.isGameFinished(gameState) || board[0][colIndex] !== null || !isPlayer}
+              disabled={loading || !legalColumns.has(colIndex)}
               className="w-12 h-6 bg-slate-700 hover:bg-slate-600 rounded text-sm font-bold transition-colors disabled:opacity-50 text-white"
             >
               ↓
@@ -67,7 +53,7 @@ export class ConnectFourRenderer {
     );
   }
 
-  renderStatus(gameState: GameState, players: { [key: string]: Player }, user: MockUser) {
+  renderStatus(gameState: GameState, players: PlayersMap, user: GameUser) {
     const player1Name = players[gameState.players[0]?.userId]?.name || gameState.players[0]?.username || "Player 1";
     const player2Name = players[gameState.players[1]?.userId]?.name || gameState.players[1]?.username || "Player 2";
     const isPlayer1 = gameState.players[0]?.userId === user.uid;
@@ -105,7 +91,7 @@ export class ConnectFourRenderer {
     );
   }
 
-  renderPlayers(gameState: GameState, players: { [key: string]: Player }, user: MockUser) {
+  renderPlayers(gameState: GameState, players: PlayersMap, user: GameUser) {
     const player1Name = players[gameState.players[0]?.userId]?.name || gameState.players[0]?.username || "Player 1";
     const player2Name = players[gameState.players[1]?.userId]?.name || gameState.players[1]?.username || "Player 2";
     const isPlayer1 = gameState.players[0]?.userId === user.uid;
@@ -0,0 +1,207 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { ZoomIn, ZoomOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  gomokuRules,
+  gomokuColorToPlace,
+  GOMOKU_COLOR_NAMES,
+  type GomokuChoice,
+  type GomokuMove,
+  type GomokuState,
+} from "@/shared/rules/gomoku"
+import type { GameRenderer, GameUser, PlayersMap } from "./types"
+
+type GameState = GomokuState
+
+const CHOICE_LABELS: Record<GomokuChoice, string> = {
+  black: "Play black",
+  white: "Play white",
+  "place-two": "Place two more",
+}
+
+function stoneClass(color: number) {
+  return color === 0 ? "bg-gray-900 border-gray-700" : "bg-white border-gray-300"
+}
+
+interface GomokuBoardProps {
+  gameState: GameState
+  onMove: (moveData: GomokuMove) => void
+  userId: string
+  loading: boolean
+}
+
+// 15x15 is too small to tap on a phone at full width, so small screens get a zoom toggle
+// that enlarges the board inside a scrollable frame and keeps the last move in view
+function GomokuBoard({ gameState, onMove, userId, loading }: GomokuBoardProps) {
+  const [zoomed, setZoomed] = useState(false)
+  const lastMoveRef = useRef<HTMLButtonElement>(null)
+
+  const legalMoves = gomokuRules.legalMoves(gameState, userId)
+  const choices = legalMoves.flatMap((move) => ("choice" in move ? [move.choice] : []))
+  const canPlace = legalMoves.length > 0 && choices.length === 0
+  const { lastMove, winningLine } = gameState
+  const winning = new Set(winningLine?.map(([row, col]) => `${row}-${col}`))
+
+  useEffect(() => {
+    if (zoomed) lastMoveRef.current?.scrollIntoView({ block: "center", inline: "center" })
+  }, [zoomed, lastMove])
+
+  return (
+    <div className="flex flex-col items-center space-y-3 w-full">
+      <div className="max-w-full max-h-[70vh] overflow-auto rounded-lg">
+        <div className="grid grid-cols-[repeat(15,auto)] p-2 bg-amber-300 w-max">
+          {gameState.board.map((row, rowIndex) =>
+            row.map((cell, colIndex) => {
+              const key = `${rowIndex}-${colIndex}`
+              const isLastMove = lastMove?.row === rowIndex && lastMove?.col === colIndex
+              return (
+                <button
+                  key={key}
+                  ref={isLastMove ? lastMoveRef : undefined}
+                  onClick={() => !loading && onMove({ row: rowIndex, col: colIndex })}
+                  disabled={loading || !canPlace || cell !== null}
+                  className={`relative flex items-center justify-center group ${zoomed ? "w-9 h-9" : "w-5 h-5 sm:w-8 sm:h-8"}`}
+                >
+                  {/* Grid lines meet at the centre of each point, stopping at the board edge */}
+                  <div
+                    className={`absolute h-px bg-amber-900/70 top-1/2 ${colIndex === 0 ? "left-1/2" : "left-0"} ${
+                      colIndex === row.length - 1 ? "right-1/2" : "right-0"
+                    }`}
+                  />
+                  <div
+                    className={`absolute w-px bg-amber-900/70 left-1/2 ${rowIndex === 0 ? "top-1/2" : "top-0"} ${
+                      rowIndex === gameState.board.length - 1 ? "bottom-1/2" : "bottom-0"
+                    }`}
+                  />
+                  {cell !== null ? (
+                    <div
+                      className={`relative w-[85%] h-[85%] rounded-full border flex items-center justify-center shadow-sm ${stoneClass(cell)}
+                        ${winning.has(key) ? "ring-2 ring-green-500" : ""}
+                      `}
+                    >
+                      {isLastMove && <div className="w-1/3 h-1/3 rounded-full bg-red-500" />}
+                    </div>
+                  ) : (
+                    canPlace && (
+                      <div className="relative w-1/2 h-1/2 rounded-full bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity" />
+                    )
+                  )}
+                </button>
+              )
+            })
+          )}
+        </div>
+      </div>
+
+      <Button variant="outline" size="sm" className="sm:hidden" onClick={() => setZoomed(!zoomed)}>
+        {zoomed ? <ZoomOut className="w-4 h-4 mr-2" /> : <ZoomIn className="w-4 h-4 mr-2" />}
+        {zoomed ? "Fit board" : "Zoom in"}
+      </Button>
+
+      {choices.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {choices.map((choice) => (
+            <Button key={choice} variant="secondary" disabled={loading} onClick={() => onMove({ choice })}>
+              {CHOICE_LABELS[choice]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export class GomokuRenderer implements GameRenderer<GameState, GomokuMove> {
+  rules = gomokuRules
+
+  renderBoard(gameState: GameState, onMove: (move: GomokuMove) => void, user: GameUser, loading: boolean) {
+    return <GomokuBoard gameState={gameState} onMove={onMove} userId={user.uid} loading={loading} />
+  }
+
+  renderStatus(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const playerIndex = gameState.players.findIndex((player) => player.userId === user.uid)
+
+    if (gameState.finished) {
+      if (gameState.isDraw) {
+        return <div className="text-lg font-bold text-yellow-500">🤝 The board is full - it's a draw!</div>
+      }
+      const winnerName = players[gameState.winner!.userId]?.name || gameState.winner!.username
+      const isWinner = gameState.winner!.userId === user.uid
+      return (
+        <div className={`text-lg font-bold ${isWinner ? "text-green-600" : "text-red-600"}`}>
+          🎉 {winnerName} wins{gameState.winningLine ? " with five in a row" : ""}!
+        </div>
+      )
+    }
+
+    const current = gameState.players[gameState.currentPlayer]
+    const currentName = players[current?.userId]?.name || current?.username || "your opponent"
+    const isMyTurn = playerIndex === gameState.currentPlayer
+    const color = gomokuColorToPlace(gameState)
+
+    let action: string
+    if (gameState.phase === "swap") {
+      action = isMyTurn ? "Pick your color, or place two more stones and let your opponent pick" : `${currentName} is picking a color`
+    } else if (gameState.phase === "pick-color") {
+      action = isMyTurn ? "Pick your color" : `${currentName} is picking a color`
+    } else if (gameState.phase !== "play") {
+      action = isMyTurn
+        ? `Opening - place a ${GOMOKU_COLOR_NAMES[color!].toLowerCase()} stone`
+        : `${currentName} is placing the opening stones`
+    } else {
+      action = isMyTurn ? `Your turn (${GOMOKU_COLOR_NAMES[color!]})` : `Waiting for ${currentName}...`
+    }
+
+    return (
+      <div className="text-md text-slate-300 space-y-1">
+        <div>{playerIndex === -1 ? "Spectating" : action}</div>
+        {(gameState.options.opening === "swap2" || gameState.options.exactlyFive) && (
+          <div className="text-xs text-slate-500">
+            {[gameState.options.opening === "swap2" && "Swap2 opening", gameState.options.exactlyFive && "Exactly five"]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  renderPlayers(gameState: GameState, players: PlayersMap, user: GameUser) {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        {gameState.players.map((player, index) => {
+          const color = gameState.colors?.[index]
+          return (
+            <Card
+              key={player.userId}
+              className={`${player.userId === user.uid ? "ring-2 ring-amber-500" : ""} ${
+                !gameState.finished && gameState.currentPlayer === index ? "border-amber-500" : ""
+              }`}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-center space-x-3">
+                  <div
+                    className={`w-10 h-10 rounded-full border-2 ${
+                      color === undefined ? "border-dashed border-gray-400" : stoneClass(color)
+                    }`}
+                  />
+                  <div>
+                    <p className="font-medium">{players[player.userId]?.name || player.username}</p>
+                    <p className="text-sm text-gray-500">{color === undefined ? "Color not chosen yet" : GOMOKU_COLOR_NAMES[color]}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+    )
+  }
+
+  isGameFinished(gameState: GameState): boolean {
+    return gameState.finished
+  }
+}
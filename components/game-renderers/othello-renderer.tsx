@@ -0,0 +1,125 @@
+"use client"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { othelloRules, othelloDiscCounts, type OthelloMove, type OthelloState } from "@/shared/rules/othello"
+import type { GameRenderer, GameUser, PlayersMap } from "./types"
+
+type GameState = OthelloState
+
+const DISC_NAMES = ["Black", "White"]
+
+function discClass(player: number) {
+  return player === 0 ? "bg-gray-900 border-gray-700" : "bg-white border-gray-300"
+}
+
+export class OthelloRenderer implements GameRenderer<GameState, OthelloMove> {
+  rules = othelloRules
+
+  renderBoard(gameState: GameState, onMove: (move: OthelloMove) => void, user: GameUser, loading: boolean) {
+    const legal = new Set(this.rules.legalMoves(gameState, user.uid).map((move) => `${move.row}-${move.col}`))
+    const { lastMove } = gameState
+    const flipped = new Set(lastMove?.flipped.map(([row, col]) => `${row}-${col}`))
+
+    return (
+      <div className="grid grid-cols-8 gap-0.5 p-2 bg-green-900 rounded-lg">
+        {gameState.board.map((row, rowIndex) =>
+          row.map((cell, colIndex) => {
+            const key = `${rowIndex}-${colIndex}`
+            const isLegal = legal.has(key)
+            const isLastMove = lastMove?.row === rowIndex && lastMove?.col === colIndex
+            return (
+              <button
+                key={key}
+                onClick={() => !loading && onMove({ row: rowIndex, col: colIndex })}
+                disabled={loading || !isLegal}
+                className="w-10 h-10 sm:w-12 sm:h-12 bg-green-700 flex items-center justify-center enabled:hover:bg-green-600 transition-colors"
+              >
+                {cell !== null ? (
+                  <div
+                    className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full border-2 transition-colors duration-300 ${discClass(cell)}
+                      ${isLastMove ? "ring-2 ring-red-500" : flipped.has(key) ? "ring-2 ring-yellow-400/60" : ""}
+                    `}
+                  />
+                ) : (
+                  isLegal && <div className="w-3 h-3 rounded-full bg-black/40" />
+                )}
+              </button>
+            )
+          })
+        )}
+      </div>
+    )
+  }
+
+  renderStatus(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const playerIndex = gameState.players.findIndex((player) => player.userId === user.uid)
+    const [black, white] = othelloDiscCounts(gameState)
+
+    if (gameState.finished) {
+      if (gameState.isDraw) {
+        return <div className="text-lg font-bold text-yellow-500">🤝 It's a draw! ({black} - {white})</div>
+      }
+      const winnerName = players[gameState.winner!.userId]?.name || gameState.winner!.username
+      const isWinner = gameState.winner!.userId === user.uid
+      return (
+        <div className={`text-lg font-bold ${isWinner ? "text-green-600" : "text-red-600"}`}>
+          🎉 {winnerName} wins! ({Math.max(black, white)} - {Math.min(black, white)})
+        </div>
+      )
+    }
+
+    const current = gameState.players[gameState.currentPlayer]
+    const currentName = players[current?.userId]?.name || current?.username || "your opponent"
+    const passedPlayer = gameState.passed !== null ? gameState.players[gameState.passed] : null
+    const passedName = passedPlayer ? players[passedPlayer.userId]?.name || passedPlayer.username : null
+
+    return (
+      <div className="text-md text-slate-300 space-y-1">
+        {passedPlayer && (
+          <div className="text-sm text-yellow-500">
+            {passedPlayer.userId === user.uid ? "You have" : `${passedName} has`} no legal move - turn passed
+          </div>
+        )}
+        {playerIndex === -1 ? (
+          <span>Spectating</span>
+        ) : playerIndex === gameState.currentPlayer ? (
+          <span>Your turn - place a {DISC_NAMES[playerIndex].toLowerCase()} disc</span>
+        ) : (
+          <span>Waiting for {currentName}...</span>
+        )}
+      </div>
+    )
+  }
+
+  renderPlayers(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const counts = othelloDiscCounts(gameState)
+
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        {gameState.players.map((player, index) => (
+          <Card
+            key={player.userId}
+            className={`${player.userId === user.uid ? "ring-2 ring-green-500" : ""} ${
+              !gameState.finished && gameState.currentPlayer === index ? "border-green-500" : ""
+            }`}
+          >
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-3">
+                <div className={`w-10 h-10 rounded-full border-2 ${discClass(index)}`} />
+                <div className="flex-1">
+                  <p className="font-medium">{players[player.userId]?.name || player.username}</p>
+                  <p className="text-sm text-gray-500">{DISC_NAMES[index]}</p>
+                </div>
+                <div className="text-2xl font-bold tabular-nums">{counts[index]}</div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    )
+  }
+
+  isGameFinished(gameState: GameState): boolean {
+    return gameState.finished
+  }
+}
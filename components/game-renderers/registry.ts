@@ -0,0 +1,49 @@
+import type { AnyGameRenderer } from "./types"
+
+type RendererLoader = () => Promise<AnyGameRenderer>
+
+const loaders = new Map<string, RendererLoader>()
+const renderers = new Map<string, AnyGameRenderer>()
+
+/**
+ * Registers the renderer for a backend game type. Pass a loader to keep the renderer
+ * out of the main bundle until someone actually plays or watches that game.
+ */
+export function registerRenderer(gameType: string, renderer: AnyGameRenderer | RendererLoader): void {
+  if (typeof renderer === "function") {
+    renderers.delete(gameType)
+    loaders.set(gameType, renderer)
+  } else {
+    loaders.delete(gameType)
+    renderers.set(gameType, renderer)
+  }
+}
+
+export function hasRenderer(gameType: string): boolean {
+  return renderers.has(gameType) || loaders.has(gameType)
+}
+
+/**
+ * Resolves the renderer for a game type, loading it on first use. Returns null when no renderer is registered.
+ */
+export async function loadRenderer(gameType: string): Promise<AnyGameRenderer | null> {
+  const renderer = renderers.get(gameType)
+  if (renderer) return renderer
+
+  const loader = loaders.get(gameType)
+  if (!loader) return null
+
+  const loaded = await loader()
+  renderers.set(gameType, loaded)
+  loaders.delete(gameType)
+  return loaded
+}
+
+// Built-in games - add new renderers here, keyed by the type served from GET /games
+registerRenderer("tictactoe", () => import("./tictactoe-renderer").then((m) => new m.TicTacToeRenderer()))
+registerRenderer("connect-four", () => import("./connect-four-renderer").then((m) => new m.ConnectFourRenderer()))
+registerRenderer("checkers", () => import("./checkers-renderer").then((m) => new m.CheckersRenderer()))
+registerRenderer("chess", () => import("./chess-renderer").then((m) => new m.ChessRenderer()))
+registerRenderer("othello", () => import("./othello-renderer").then((m) => new m.OthelloRenderer()))
+registerRenderer("gomoku", () => import("./gomoku-renderer").then((m) => new m.GomokuRenderer()))
+registerRenderer("ultimate-tictactoe", () => import("./ultimate-tictactoe-renderer").then((m) => new m.UltimateTicTacToeRenderer()))
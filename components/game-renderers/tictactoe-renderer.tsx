@@ -2,31 +2,16 @@
 
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { ticTacToeRules, type TicTacToeMove, type TicTacToeState } from "@/shared/rules/tictactoe"
+import type { GameRenderer, GameUser, PlayersMap } from "./types"
 
-interface GameState {
-  board: (string | null)[]
-  currentPlayer: "X" | "O"
-  winner: string | null
-  playerX: string
-  playerO: string | null
-  moves: number
-}
+type GameState = TicTacToeState
 
-interface Player {
-  name: string
-  email?: string
-}
+export class TicTacToeRenderer implements GameRenderer<GameState, TicTacToeMove> {
+  rules = ticTacToeRules
 
-interface MockUser {
-  uid: string
-  email: string
-  displayName: string
-}
-
-export class TicTacToeRenderer {
-  renderBoard(gameState: GameState, onMove: (moveData: any) => void, user: MockUser, loading: boolean) {
-    const isPlayerX = gameState.playerX === user.uid
-    const isPlayerO = gameState.playerO === user.uid
+  renderBoard(gameState: GameState, onMove: (move: TicTacToeMove) => void, user: GameUser, loading: boolean) {
+    const legalCells = new Set(this.rules.legalMoves(gameState, user.uid).map((move) => move.index))
 
     return (
       <div className="grid grid-cols-3 gap-2 bg-slate-800 rounded-lg p-4">
@@ -34,10 +19,10 @@ export class TicTacToeRenderer {
           <button
             key={idx}
             className={`w-20 h-20 text-3xl font-bold rounded-lg border-2 flex items-center justify-center transition-all duration-150
-              ${cell === "X" ? "text-blue-500 border-blue-400" : cell === "O" ? "text-purple-500 border-purple-400" : "border-slate-700 hover:border-blue-400 hover:bg-slate-700"}
+              ${cell === "X" ? "text-blue-500 border-blue-400" : cell === "O" ? "text-purple-500 border-purple-400" : legalCells.has(idx) ? "border-slate-600 hover:border-blue-400 hover:bg-slate-700" : "border-slate-700"}
               ${gameState.winner && cell === gameState.winner ? "bg-green-100" : ""}
             `}
-            disabled={!!cell || !!gameState.winner || loading || !isPlayerX && !isPlayerO}
+            disabled={loading || !legalCells.has(idx)}
             onClick={() => onMove({ index: idx })}
           >
             {cell}
@@ -47,7 +32,7 @@ export class TicTacToeRenderer {
     )
   }
 
-  renderStatus(gameState: GameState, players: { [key: string]: Player }, user: MockUser) {
+  renderStatus(gameState: GameState, players: PlayersMap, user: GameUser) {
     const playerXName = players[gameState.playerX]?.name || "Player X"
     const playerOName = players[gameState.playerO!]?.name || "Player O"
     const isPlayerX = gameState.playerX === user.uid
@@ -76,7 +61,7 @@ export class TicTacToeRenderer {
     }
   }
 
-  renderPlayers(gameState: GameState, players: { [key: string]: Player }, user: MockUser) {
+  renderPlayers(gameState: GameState, players: PlayersMap, user: GameUser) {
     const playerXName = players[gameState.playerX]?.name || "Player X"
     const playerOName = players[gameState.playerO!]?.name || "Player O"
     const isPlayerX = gameState.playerX === user.uid
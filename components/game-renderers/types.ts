@@ -0,0 +1,74 @@
+import type { ReactNode } from "react"
+import type { GameRules } from "@/shared/rules/types"
+
+export interface Player {
+  name: string
+  email?: string
+}
+
+export type PlayersMap = { [userId: string]: Player }
+
+// One entry per player in seat order, set by the backend for every game type
+export interface Seat {
+  userId: string
+  username: string
+  seat: number
+  symbol: string
+  color: string | null
+}
+
+export interface Standing {
+  userId: string
+  place: number // 1-based, tied players share a place
+}
+
+// Game-independent outcome of a finished session; winnerIds is empty for a draw
+export interface SessionResult {
+  winnerIds: string[]
+  isDraw: boolean
+  standings?: Standing[]
+  // Final points per player, for games decided by a count (e.g. Othello discs)
+  scores?: { [userId: string]: number }
+}
+
+export interface GameUser {
+  uid: string
+  email: string
+  displayName: string
+}
+
+// What a renderer gets to build a download of a finished game
+export interface GameExportSession {
+  roomId: string
+  players: PlayersMap
+  seats: Seat[]
+  result?: SessionResult
+  endReason?: string
+  startedAt?: number
+}
+
+// A finished game as a file in the game's standard notation, offered on the result screen
+export interface GameExport {
+  label: string
+  filename: string
+  mimeType: string
+  content: string
+}
+
+/**
+ * Draws one game type. GenericGameBoard owns fetching, realtime updates and the result screen;
+ * a renderer only turns the backend game state into UI and move payloads.
+ */
+export interface GameRenderer<TState, TMove> {
+  renderBoard(gameState: TState, onMove: (move: TMove) => void, user: GameUser, loading: boolean): ReactNode
+  renderStatus(gameState: TState, players: PlayersMap, user: GameUser): ReactNode
+  renderPlayers(gameState: TState, players: PlayersMap, user: GameUser): ReactNode
+  isGameFinished(gameState: TState): boolean
+  // Shared rules for the game, if it has them; enables optimistic moves in GenericGameBoard
+  rules?: GameRules<TState, TMove>
+  // Optional download of a finished game (PGN for chess)
+  exportGame?(gameState: TState, session: GameExportSession): GameExport
+}
+
+// A renderer looked up by game type at runtime, where its state and move types are not known
+export type AnyGameRenderer = GameRenderer<any, any>
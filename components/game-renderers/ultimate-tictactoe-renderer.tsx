@@ -0,0 +1,134 @@
+"use client"
+
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  ultimateTicTacToeRules,
+  playableBoards,
+  type UltimateTicTacToeMove,
+  type UltimateTicTacToeState,
+} from "@/shared/rules/ultimate-tictactoe"
+import type { GameRenderer, GameUser, PlayersMap } from "./types"
+
+type GameState = UltimateTicTacToeState
+
+function markColor(mark: string | null) {
+  return mark === "X" ? "text-blue-500" : mark === "O" ? "text-purple-500" : "text-slate-500"
+}
+
+export class UltimateTicTacToeRenderer implements GameRenderer<GameState, UltimateTicTacToeMove> {
+  rules = ultimateTicTacToeRules
+
+  renderBoard(gameState: GameState, onMove: (move: UltimateTicTacToeMove) => void, user: GameUser, loading: boolean) {
+    const legal = new Set(this.rules.legalMoves(gameState, user.uid).map((move) => `${move.board}-${move.cell}`))
+    // Shown to everyone, so the opponent and spectators can see where the next move goes
+    const playable = new Set(playableBoards(gameState))
+    const winningBoards = new Set(gameState.winningLine)
+    const { lastMove } = gameState
+
+    return (
+      <div className="grid grid-cols-3 gap-2 bg-slate-900 rounded-lg p-2">
+        {gameState.boards.map((cells, board) => {
+          const decided = gameState.boardWinners[board]
+          return (
+            <div
+              key={board}
+              className={`relative grid grid-cols-3 gap-0.5 p-1 rounded-md transition-colors
+                ${playable.has(board) ? "bg-slate-700 ring-2 ring-yellow-400" : "bg-slate-800"}
+                ${winningBoards.has(board) ? "ring-2 ring-green-500" : ""}
+              `}
+            >
+              {cells.map((cell, index) => {
+                const isLastMove = lastMove?.board === board && lastMove?.cell === index
+                return (
+                  <button
+                    key={index}
+                    className={`w-7 h-7 sm:w-9 sm:h-9 text-lg sm:text-xl font-bold rounded flex items-center justify-center ${markColor(cell)}
+                      ${isLastMove ? "bg-yellow-400/20" : "bg-slate-900/60"}
+                      ${legal.has(`${board}-${index}`) ? "hover:bg-slate-600" : ""}
+                    `}
+                    disabled={loading || !legal.has(`${board}-${index}`)}
+                    onClick={() => onMove({ board, cell: index })}
+                  >
+                    {cell}
+                  </button>
+                )
+              })}
+              {decided && (
+                <div className="absolute inset-0 flex items-center justify-center rounded-md bg-slate-900/75 pointer-events-none">
+                  <span className={`text-6xl sm:text-7xl font-black ${markColor(decided)}`}>{decided === "draw" ? "–" : decided}</span>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  renderStatus(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const playerXName = players[gameState.playerX]?.name || "Player X"
+    const playerOName = players[gameState.playerO]?.name || "Player O"
+    const isPlayerX = gameState.playerX === user.uid
+    const isPlayerO = gameState.playerO === user.uid
+
+    if (gameState.winner) {
+      if (gameState.winner === "draw") {
+        return <div className="text-lg font-bold text-yellow-500">🤝 It's a draw!</div>
+      }
+      return <div className="text-lg font-bold text-green-600">🎉 {gameState.winner === "X" ? playerXName : playerOName} wins!</div>
+    }
+
+    const anyBoard = gameState.activeBoard === null
+    return (
+      <div className="text-md text-slate-300">
+        {isPlayerX || isPlayerO ? (
+          gameState.currentPlayer === (isPlayerX ? "X" : "O") ? (
+            <span>
+              Your turn ({gameState.currentPlayer}) - {anyBoard ? "play in any open board" : "play in the highlighted board"}
+            </span>
+          ) : (
+            <span>Waiting for opponent...</span>
+          )
+        ) : (
+          <span>Spectating</span>
+        )}
+      </div>
+    )
+  }
+
+  renderPlayers(gameState: GameState, players: PlayersMap, user: GameUser) {
+    const seats = [
+      { mark: "X", userId: gameState.playerX, color: "bg-blue-600", ring: "ring-blue-500" },
+      { mark: "O", userId: gameState.playerO, color: "bg-purple-600", ring: "ring-purple-500" },
+    ]
+
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        {seats.map(({ mark, userId, color, ring }) => {
+          const boardsWon = gameState.boardWinners.filter((winner) => winner === mark).length
+          return (
+            <Card key={mark} className={userId === user.uid ? `ring-2 ${ring}` : ""}>
+              <CardContent className="p-4">
+                <div className="flex items-center space-x-3">
+                  <div className={`w-10 h-10 ${color} rounded-full flex items-center justify-center text-white font-bold`}>
+                    {mark}
+                  </div>
+                  <div>
+                    <p className="font-medium">{players[userId]?.name || `Player ${mark}`}</p>
+                    <p className="text-sm text-gray-500">
+                      {boardsWon} {boardsWon === 1 ? "board" : "boards"} won
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+    )
+  }
+
+  isGameFinished(gameState: GameState): boolean {
+    return !!gameState.winner
+  }
+}
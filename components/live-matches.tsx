@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Eye, RefreshCw, Tv } from "lucide-react"
+import { fetchLiveMatches, type LiveMatch } from "@/lib/live-matches"
+
+interface LiveMatchesProps {
+  userId: string
+  onWatch: (match: LiveMatch) => void
+  onBack: () => void
+}
+
+const REFRESH_INTERVAL = 10000
+
+export default function LiveMatches({ userId, onWatch, onBack }: LiveMatchesProps) {
+  const [matches, setMatches] = useState<LiveMatch[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [refreshing, setRefreshing] = useState(false)
+
+  const loadMatches = useCallback(async () => {
+    setRefreshing(true)
+    try {
+      setMatches(await fetchLiveMatches())
+      setError(null)
+    } catch (err) {
+      console.error("Error loading live matches:", err)
+      setError("Could not load live matches.")
+    } finally {
+      setRefreshing(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMatches()
+    const interval = setInterval(loadMatches, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [loadMatches])
+
+  const formatStarted = (startedAt: number) => {
+    const minutes = Math.floor((Date.now() - startedAt) / 60000)
+    return minutes < 1 ? "just started" : `${minutes} min ago`
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button onClick={onBack} variant="ghost" size="sm" className="text-slate-300 hover:text-white hover:bg-slate-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Lobby
+          </Button>
+          <Button
+            onClick={loadMatches}
+            disabled={refreshing}
+            variant="ghost"
+            size="sm"
+            className="text-slate-300 hover:text-white hover:bg-slate-800"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card className="bg-slate-900/50 border-slate-800 backdrop-blur">
+          <CardHeader>
+            <CardTitle className="text-xl text-slate-100 flex items-center gap-2">
+              <Tv className="w-5 h-5" />
+              Live Matches
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            {!matches && !error && (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
+              </div>
+            )}
+            {matches && matches.length === 0 && (
+              <p className="text-slate-400 text-sm text-center py-8">No public matches in progress right now.</p>
+            )}
+            {matches?.map((match) => {
+              const isOwnMatch = match.players.some((player) => player.userId === userId)
+              return (
+                <div
+                  key={match.roomId}
+                  className="flex items-center justify-between p-4 bg-slate-800/30 rounded-lg border border-slate-700"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-slate-100">{match.gameName}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {match.moveCount} moves
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-slate-300">{match.players.map((player) => player.name).join(" vs ")}</p>
+                    <p className="text-xs text-slate-500 flex items-center gap-2">
+                      <span>{formatStarted(match.startedAt)}</span>
+                      <span className="flex items-center gap-1">
+                        <Eye className="w-3 h-3" />
+                        {match.spectators}
+                      </span>
+                    </p>
+                  </div>
+                  <Button onClick={() => onWatch(match)} disabled={isOwnMatch} size="sm">
+                    <Eye className="w-4 h-4 mr-2" />
+                    Watch
+                  </Button>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { ArrowLeft, History, Film } from "lucide-react"
+import { fetchMatchHistory, formatPlace, getMatchOutcome, type MatchHistoryPage, type MatchRecord } from "@/lib/match-history"
+
+interface MatchHistoryProps {
+  userId: string
+  gameNames: { [gameType: string]: string }
+  onBack: () => void
+  onReplay: (match: MatchRecord) => void
+}
+
+const PAGE_SIZE = 10
+
+const REASON_LABELS: { [reason: string]: string } = {
+  win: "Win",
+  draw: "Draw",
+  forfeit: "Forfeit",
+  timeout: "Timeout",
+  resign: "Resignation",
+  agreement: "Agreed draw",
+  abandoned: "Abandoned",
+}
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.round(ms / 1000)
+  const mins = Math.floor(totalSeconds / 60)
+  const secs = totalSeconds % 60
+  return `${mins}:${secs.toString().padStart(2, "0")}`
+}
+
+// Page numbers to show: first, last, and the neighbours of the current page
+function getPageNumbers(page: number, totalPages: number): (number | "ellipsis")[] {
+  const pages: (number | "ellipsis")[] = []
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis")
+    }
+  }
+  return pages
+}
+
+export default function MatchHistory({ userId, gameNames, onBack, onReplay }: MatchHistoryProps) {
+  const [page, setPage] = useState(1)
+  const [history, setHistory] = useState<MatchHistoryPage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    fetchMatchHistory(userId, page, PAGE_SIZE)
+      .then((data) => {
+        if (cancelled) return
+        setHistory(data)
+        setError(null)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error("Error loading match history:", err)
+        setError("Could not load your match history.")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, page])
+
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (!history || target < 1 || target > history.totalPages || target === page) return
+    setPage(target)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-blue-950 to-slate-900 p-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <Button onClick={onBack} variant="ghost" size="sm" className="text-slate-300 hover:text-white hover:bg-slate-800">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Lobby
+        </Button>
+
+        <Card className="bg-slate-900/50 border-slate-800 backdrop-blur">
+          <CardHeader>
+            <CardTitle className="text-xl text-slate-100 flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Match History
+              {history && <span className="text-sm font-normal text-slate-400">({history.total} games)</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <p className="text-red-400 text-sm">{error}</p>
+            ) : loading && !history ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
+              </div>
+            ) : history && history.matches.length === 0 ? (
+              <p className="text-slate-400 text-sm text-center py-8">No finished games yet. Go play one!</p>
+            ) : (
+              history && (
+                <Table className={loading ? "opacity-60" : ""}>
+                  <TableHeader>
+                    <TableRow className="border-slate-800">
+                      <TableHead>Date</TableHead>
+                      <TableHead>Game</TableHead>
+                      <TableHead>Opponent</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Moves</TableHead>
+                      <TableHead className="text-right">Duration</TableHead>
+                      <TableHead className="text-right">Rating</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.matches.map((match) => {
+                      const outcome = getMatchOutcome(match, userId)
+                      const opponents = match.players.filter((p) => p.userId !== userId).map((p) => p.username)
+                      // Games with more than two players show the finishing place instead of a plain defeat
+                      const place = match.players.length > 2
+                        ? match.result.standings?.find((standing) => standing.userId === userId)?.place
+                        : undefined
+                      const ratingChange = match.ratingChanges?.[userId]
+                      const delta = ratingChange ? ratingChange.after - ratingChange.before : null
+                      return (
+                        <TableRow key={match.matchId} className="border-slate-800 text-slate-300">
+                          <TableCell>{new Date(match.endedAt).toLocaleString()}</TableCell>
+                          <TableCell>{gameNames[match.gameType] || match.gameType}</TableCell>
+                          <TableCell>{opponents.join(", ") || "—"}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={outcome === "Victory" ? "default" : outcome === "Draw" ? "secondary" : "destructive"}
+                            >
+                              {outcome === "Defeat" && place ? formatPlace(place) : outcome}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{REASON_LABELS[match.reason] || match.reason}</TableCell>
+                          <TableCell className="text-right">{match.moves.length}</TableCell>
+                          <TableCell className="text-right">{formatDuration(match.durationMs)}</TableCell>
+                          <TableCell className="text-right">
+                            {delta === null ? (
+                              "—"
+                            ) : (
+                              <span className={delta > 0 ? "text-green-400" : delta < 0 ? "text-red-400" : ""}>
+                                {delta > 0 ? `+${delta}` : delta}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              onClick={() => onReplay(match)}
+                              variant="ghost"
+                              size="sm"
+                              className="text-slate-300 hover:text-white hover:bg-slate-800"
+                            >
+                              <Film className="w-4 h-4 mr-1" />
+                              Replay
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )
+            )}
+
+            {history && history.totalPages > 1 && (
+              <Pagination className="mt-4 text-slate-300">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious href="#" onClick={goToPage(page - 1)} />
+                  </PaginationItem>
+                  {getPageNumbers(page, history.totalPages).map((p, index) =>
+                    p === "ellipsis" ? (
+                      <PaginationItem key={`ellipsis-${index}`}>
+                        <PaginationEllipsis />
+                      </PaginationItem>
+                    ) : (
+                      <PaginationItem key={p}>
+                        <PaginationLink href="#" isActive={p === page} onClick={goToPage(p)}>
+                          {p}
+                        </PaginationLink>
+                      </PaginationItem>
+                    )
+                  )}
+                  <PaginationItem>
+                    <PaginationNext href="#" onClick={goToPage(page + 1)} />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { ArrowLeft, Play, Pause, SkipBack, SkipForward, ChevronLeft, ChevronRight } from "lucide-react"
+import { fetchMatchReplay, type MatchReplay } from "@/lib/match-history"
+import type { AnyGameRenderer, GameUser } from "@/components/game-renderers/types"
+
+interface ReplayViewerProps {
+  matchId: string
+  user: GameUser
+  gameRenderer: AnyGameRenderer
+  onBack: () => void
+}
+
+const PLAYBACK_INTERVAL = 800
+
+export default function ReplayViewer({ matchId, user, gameRenderer, onBack }: ReplayViewerProps) {
+  const [replay, setReplay] = useState<MatchReplay | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchMatchReplay(matchId)
+      .then((data) => {
+        if (cancelled) return
+        setReplay(data)
+        setFrameIndex(0)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error("Error loading replay:", err)
+        setError("Could not load this replay.")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [matchId])
+
+  const lastFrame = replay ? replay.frames.length - 1 : 0
+
+  // Advance one move per tick while playing, stopping on the final position
+  useEffect(() => {
+    if (!playing) return
+    if (frameIndex >= lastFrame) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setFrameIndex((index) => Math.min(index + 1, lastFrame)), PLAYBACK_INTERVAL)
+    return () => clearTimeout(timer)
+  }, [playing, frameIndex, lastFrame])
+
+  const stepTo = (index: number) => {
+    setPlaying(false)
+    setFrameIndex(Math.max(0, Math.min(index, lastFrame)))
+  }
+
+  const togglePlay = () => {
+    if (!playing && frameIndex >= lastFrame) {
+      setFrameIndex(0)
+    }
+    setPlaying(!playing)
+  }
+
+  if (error || !replay) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center space-y-4">
+        {error ? (
+          <p className="text-red-400">{error}</p>
+        ) : (
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+        )}
+        <Button onClick={onBack} variant="outline" size="sm">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+      </div>
+    )
+  }
+
+  const frame = replay.frames[frameIndex]
+  const mover = frame.move ? replay.players[frame.move.userId]?.name || "Unknown" : null
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <Button onClick={onBack} variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">🎬 Replay</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {new Date(replay.match.endedAt).toLocaleString()}
+            </p>
+          </div>
+          <div className="w-20" />
+        </div>
+
+        {/* Players Info */}
+        {gameRenderer.renderPlayers(frame.gameState, replay.players, user)}
+
+        {/* Board is read-only: moves are ignored and input is disabled */}
+        <div className="flex justify-center">
+          {gameRenderer.renderBoard(frame.gameState, () => {}, user, true)}
+        </div>
+
+        <div className="text-center">
+          {frameIndex === lastFrame
+            ? gameRenderer.renderStatus(frame.gameState, replay.players, user)
+            : mover
+              ? <div className="text-sm text-slate-400">{mover} played move {frameIndex}</div>
+              : <div className="text-sm text-slate-400">Starting position</div>}
+        </div>
+
+        {/* Playback controls */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-center">
+              Move {frameIndex} of {lastFrame}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Slider
+              value={[frameIndex]}
+              min={0}
+              max={lastFrame}
+              step={1}
+              onValueChange={([value]) => stepTo(value)}
+              disabled={lastFrame === 0}
+            />
+            <div className="flex justify-center gap-2">
+              <Button onClick={() => stepTo(0)} variant="outline" size="sm" disabled={frameIndex === 0}>
+                <SkipBack className="h-4 w-4" />
+              </Button>
+              <Button onClick={() => stepTo(frameIndex - 1)} variant="outline" size="sm" disabled={frameIndex === 0}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button onClick={togglePlay} size="sm" disabled={lastFrame === 0}>
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button onClick={() => stepTo(frameIndex + 1)} variant="outline" size="sm" disabled={frameIndex === lastFrame}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button onClick={() => stepTo(lastFrame)} variant="outline" size="sm" disabled={frameIndex === lastFrame}>
+                <SkipForward className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
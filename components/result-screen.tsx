@@ -4,50 +4,67 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Trophy, Users, Home, Clock } from "lucide-react"
-
-interface GameState {
-  board: (string | null)[]
-  currentPlayer: "X" | "O"
-  winner: string | null
-  playerX: string
-  playerO: string | null
-  moves: number
-}
-
-interface Player {
-  name: string
-  email?: string
-}
+import { Trophy, Users, Home, Clock, RotateCcw, Check, X, Film, Download } from "lucide-react"
+import { authFetch } from "@/lib/api"
+import { getRankTier } from "@/lib/ratings"
+import { formatPlace } from "@/lib/match-history"
+import type { GameExport, GameUser, Seat } from "@/components/game-renderers/types"
+import type { GameSession } from "@/lib/session"
 
-interface MockUser {
-  uid: string
-  email: string
-  displayName: string
-}
-
-interface RoomData {
-  gameState: GameState
-  players: { [key: string]: Player }
-  status: string
-  roomId: string
-}
+type RoomData = GameSession
 
 interface ResultScreenProps {
   roomData: RoomData
-  user: MockUser
+  user: GameUser
   onBackToLobby: () => void
+  onRematch?: (roomId: string) => void
+  onWatchReplay?: () => void
+  // Download of the game in its standard notation, for renderers that provide one
+  gameExport?: GameExport
 }
 
-export default function ResultScreen({ roomData, user, onBackToLobby }: ResultScreenProps) {
+// Save a text file through a temporary link
+function downloadFile({ filename, mimeType, content }: GameExport) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function ResultScreen({ roomData, user, onBackToLobby, onRematch, onWatchReplay, gameExport }: ResultScreenProps) {
   const [isCleaningUp, setIsCleaningUp] = useState(false)
+  const [rematchPending, setRematchPending] = useState(false)
+  const [rematchError, setRematchError] = useState<string | null>(null)
   const [timeLeft, setTimeLeft] = useState(5) // 5 seconds countdown
-  const { gameState, players, roomId } = roomData
+  const { players, seats, roomId } = roomData
+  const winnerIds = roomData.result?.winnerIds ?? []
+  const isDraw = !!roomData.result?.isDraw
+  const scores = roomData.result?.scores
+
+  const getSeatName = (seat: Seat) => players[seat.userId]?.name || seat.username || `Player ${seat.seat + 1}`
 
-  const playerXName = players[gameState.playerX]?.name || "Player X"
-  const playerOName = players[gameState.playerO!]?.name || "Player O"
-  const isPlayerX = gameState.playerX === user.uid
-  const isPlayerO = gameState.playerO === user.uid
+  // Full standings, best place first; older sessions without standings keep seat order
+  const standings = roomData.result?.standings ?? []
+  const getPlace = (userId: string) => standings.find((standing) => standing.userId === userId)?.place
+  const rankedSeats = [...seats].sort((a, b) => (getPlace(a.userId) ?? a.seat + 1) - (getPlace(b.userId) ?? b.seat + 1))
+  const showPlaces = seats.length > 2 && standings.length > 0
+
+  // Extract game type from room ID (format: gameType-timestamp-random)
+  const gameType = roomId.split('-').slice(0, -2).join('-')
+
+  const rematch = roomData.rematch
+  const myRematchResponse = rematch?.responses[user.uid]
+  const rematchDeclined = !!rematch && Object.values(rematch.responses).includes("declined")
+  const opponentOfferedRematch = !!rematch && rematch.offeredBy !== user.uid && !myRematchResponse
+
+  // Both players accepted: move into the new room
+  useEffect(() => {
+    if (rematch?.roomId) {
+      onRematch?.(rematch.roomId)
+    }
+  }, [rematch?.roomId, onRematch])
 
   // Countdown timer effect
   useEffect(() => {
@@ -65,43 +82,108 @@ export default function ResultScreen({ roomData, user, onBackToLobby }: ResultSc
   }, [])
 
   const getResultMessage = () => {
-    if (gameState.winner === "draw") {
+    if (isDraw) {
       return "It's a Draw!"
-    } else if (gameState.winner === "X") {
-      return `${playerXName} Wins!`
-    } else if (gameState.winner === "O") {
-      return `${playerOName} Wins!`
+    }
+    const winners = seats.filter((seat) => winnerIds.includes(seat.userId))
+    if (winners.length > 0) {
+      return `${winners.map(getSeatName).join(" & ")} ${winners.length === 1 ? "Wins" : "Win"}!`
     }
     return "Game Over"
   }
 
   const getPlayerResult = () => {
-    if (gameState.winner === "draw") {
+    const place = getPlace(user.uid)
+    if (isDraw && (!showPlaces || place === 1)) {
       return "Draw"
-    } else if (
-      (gameState.winner === "X" && isPlayerX) ||
-      (gameState.winner === "O" && isPlayerO)
-    ) {
+    } else if (winnerIds.includes(user.uid)) {
       return "Victory"
+    } else if (showPlaces && place) {
+      return `${formatPlace(place)} Place`
     } else {
       return "Defeat"
     }
   }
 
+  const sendRematchAction = async (action: "offer" | "accept" | "decline") => {
+    setRematchPending(true)
+    setRematchError(null)
+    try {
+      const response = await authFetch(`http://localhost:3001/game/${gameType}/${roomId}/rematch`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}))
+        setRematchError(err.error || "Rematch is no longer available")
+      }
+    } catch (error) {
+      console.error("Error sending rematch action:", error)
+      setRematchError("Failed to reach the game server")
+    } finally {
+      setRematchPending(false)
+    }
+  }
+
+  const renderRematch = () => {
+    if (!onRematch) return null
+    if (rematchError) {
+      return <p className="text-sm text-center text-slate-400">{rematchError}</p>
+    }
+    if (rematchDeclined) {
+      return <p className="text-sm text-center text-slate-400">Rematch declined</p>
+    }
+    if (rematch?.roomId) {
+      return <p className="text-sm text-center text-slate-300">Starting rematch...</p>
+    }
+    if (opponentOfferedRematch) {
+      const offeredByName = players[rematch!.offeredBy]?.name || "Your opponent"
+      return (
+        <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg space-y-2">
+          <p className="text-sm text-center text-slate-200">{offeredByName} wants a rematch!</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={() => sendRematchAction("accept")} disabled={rematchPending} size="sm">
+              <Check className="w-4 h-4 mr-1" />
+              Accept
+            </Button>
+            <Button onClick={() => sendRematchAction("decline")} disabled={rematchPending} size="sm" variant="outline">
+              <X className="w-4 h-4 mr-1" />
+              Decline
+            </Button>
+          </div>
+        </div>
+      )
+    }
+    if (myRematchResponse === "accepted") {
+      return (
+        <div className="flex items-center justify-center space-x-2 text-sm text-slate-300">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-400"></div>
+          <span>Rematch offered, waiting for opponent...</span>
+        </div>
+      )
+    }
+    return (
+      <Button
+        onClick={() => sendRematchAction("offer")}
+        disabled={rematchPending || isCleaningUp}
+        variant="outline"
+        className="w-full border-slate-600 text-slate-300 hover:bg-slate-800"
+      >
+        <RotateCcw className="w-4 h-4 mr-2" />
+        Rematch
+      </Button>
+    )
+  }
+
   const handleBackToLobby = async () => {
     if (isCleaningUp) return // Prevent multiple calls
     
     setIsCleaningUp(true)
     try {
-      // Extract game type from room ID (format: gameType-timestamp-random)
-      const parts = roomId.split('-');
-      const gameType = parts.slice(0, -2).join('-');
-      
       // Call leave-result endpoint using generic game type
-      const response = await fetch(`http://localhost:3001/game/${gameType}/${roomId}/leave-result`, {
+      const response = await authFetch(`http://localhost:3001/game/${gameType}/${roomId}/leave-result`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId: user.uid }),
       })
       
       if (!response.ok) {
@@ -120,6 +202,22 @@ export default function ResultScreen({ roomData, user, onBackToLobby }: ResultSc
     }
   }
 
+  const renderRatingChange = (userId: string) => {
+    const change = roomData.ratingChanges?.[userId]
+    if (!change) return null
+    const delta = change.after - change.before
+    return (
+      <div className="text-right text-xs">
+        <div className="text-slate-300">
+          {change.before} → <span className="font-semibold text-slate-100">{change.after}</span>
+        </div>
+        <div className={delta > 0 ? "text-green-400" : delta < 0 ? "text-red-400" : "text-slate-400"}>
+          {delta > 0 ? `+${delta}` : delta} · {getRankTier(change.after)}
+        </div>
+      </div>
+    )
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -131,7 +229,7 @@ export default function ResultScreen({ roomData, user, onBackToLobby }: ResultSc
       <Card className="w-full max-w-md bg-slate-900/50 border-slate-800 backdrop-blur">
         <CardHeader className="text-center">
           <div className="flex justify-center mb-4">
-            {gameState.winner === "draw" ? (
+            {isDraw ? (
               <div className="w-16 h-16 bg-yellow-500 rounded-full flex items-center justify-center">
                 <Trophy className="w-8 h-8 text-white" />
               </div>
@@ -148,6 +246,21 @@ export default function ResultScreen({ roomData, user, onBackToLobby }: ResultSc
           <CardTitle className="text-2xl font-bold text-slate-100">
             {getResultMessage()}
           </CardTitle>
+          {roomData.endReason === "timeout" && (
+            <p className="text-sm text-slate-400">⏰ Decided on time</p>
+          )}
+          {roomData.endReason === "forfeit" && (
+            <p className="text-sm text-slate-400">🏳️ Decided by forfeit</p>
+          )}
+          {roomData.endReason === "resign" && (
+            <p className="text-sm text-slate-400">🏳️ Decided by resignation</p>
+          )}
+          {roomData.endReason === "abandoned" && (
+            <p className="text-sm text-slate-400">🔌 Decided by abandonment</p>
+          )}
+          {roomData.endReason === "agreement" && (
+            <p className="text-sm text-slate-400">🤝 Drawn by agreement</p>
+          )}
           <Badge
             variant={
               getPlayerResult() === "Victory"
@@ -175,48 +288,72 @@ export default function ResultScreen({ roomData, user, onBackToLobby }: ResultSc
         <CardContent className="space-y-4">
           {/* Players */}
           <div className="space-y-2">
-            <div className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg">
-              <div className="flex items-center space-x-3">
-                <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center text-white font-bold text-sm">
-                  X
+            {rankedSeats.map((seat) => (
+              <div key={seat.userId} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg">
+                <div className="flex items-center space-x-3">
+                  {showPlaces && (
+                    <span className="w-8 text-sm font-semibold text-slate-400">{formatPlace(getPlace(seat.userId) ?? seat.seat + 1)}</span>
+                  )}
+                  <div
+                    className="w-8 h-8 bg-slate-600 rounded-full flex items-center justify-center text-white font-bold text-sm"
+                    style={seat.color ? { backgroundColor: seat.color } : undefined}
+                  >
+                    {seat.symbol}
+                  </div>
+                  <span className="text-slate-300">{getSeatName(seat)}</span>
+                  {winnerIds.includes(seat.userId) && (
+                    <Badge variant="default" className="text-xs">
+                      Winner
+                    </Badge>
+                  )}
                 </div>
-                <span className="text-slate-300">{playerXName}</span>
+                {scores?.[seat.userId] !== undefined && (
+                  <span className="text-lg font-bold text-slate-100 tabular-nums">{scores[seat.userId]}</span>
+                )}
+                {renderRatingChange(seat.userId)}
               </div>
-              {gameState.winner === "X" && (
-                <Badge variant="default" className="text-xs">
-                  Winner
-                </Badge>
-              )}
-            </div>
-            <div className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg">
-              <div className="flex items-center space-x-3">
-                <div className="w-8 h-8 bg-purple-600 rounded-full flex items-center justify-center text-white font-bold text-sm">
-                  O
-                </div>
-                <span className="text-slate-300">{playerOName}</span>
-              </div>
-              {gameState.winner === "O" && (
-                <Badge variant="default" className="text-xs">
-                  Winner
-                </Badge>
-              )}
-            </div>
+            ))}
           </div>
 
           {/* Game Stats */}
           <div className="grid grid-cols-2 gap-4 text-center">
             <div className="bg-slate-800/50 rounded-lg p-3">
-              <div className="text-2xl font-bold text-slate-100">{gameState.moves}</div>
+              <div className="text-2xl font-bold text-slate-100">{roomData.moves?.length ?? 0}</div>
               <div className="text-sm text-slate-400">Total Moves</div>
             </div>
             <div className="bg-slate-800/50 rounded-lg p-3">
               <div className="text-2xl font-bold text-slate-100">
-                {gameState.winner === "draw" ? "🤝" : "🎯"}
+                {isDraw ? "🤝" : "🎯"}
               </div>
               <div className="text-sm text-slate-400">Result</div>
             </div>
           </div>
 
+          {renderRematch()}
+
+          {onWatchReplay && (
+            <Button
+              onClick={onWatchReplay}
+              disabled={isCleaningUp}
+              variant="outline"
+              className="w-full border-slate-600 text-slate-300 hover:bg-slate-800"
+            >
+              <Film className="w-4 h-4 mr-2" />
+              Watch Replay
+            </Button>
+          )}
+
+          {gameExport && (
+            <Button
+              onClick={() => downloadFile(gameExport)}
+              variant="outline"
+              className="w-full border-slate-600 text-slate-300 hover:bg-slate-800"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export {gameExport.label}
+            </Button>
+          )}
+
           {/* Back to Lobby Button */}
           <Button
             onClick={handleBackToLobby}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Clock } from "lucide-react"
+import { getTimeLeft, formatClock, type TurnClock } from "@/lib/clocks"
+import type { PlayersMap } from "@/components/game-renderers/types"
+
+interface TurnClocksProps {
+  clock: TurnClock
+  players: PlayersMap
+  serverTime?: number
+  userId: string
+}
+
+const LOW_TIME_MS = 10000
+
+// Renderer-agnostic clocks for every seat. The server is the source of truth for flag falls;
+// this only counts down between updates.
+export default function TurnClocks({ clock, players, serverTime, userId }: TurnClocksProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Offset between the server clock and ours, measured when the session arrived
+  const offset = useMemo(() => (serverTime ? serverTime - Date.now() : 0), [serverTime])
+
+  useEffect(() => {
+    if (!clock.turnUserId) return
+    const timer = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(timer)
+  }, [clock.turnUserId])
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {Object.entries(players).map(([playerId, player]) => {
+        const timeLeft = getTimeLeft(clock, playerId, now + offset)
+        const onTurn = clock.turnUserId === playerId
+        const lowTime = onTurn && timeLeft <= LOW_TIME_MS
+        return (
+          <div
+            key={playerId}
+            className={`flex items-center justify-between rounded-lg border px-3 py-2 ${
+              onTurn ? "border-blue-400 bg-blue-500/10" : "border-slate-700 opacity-70"
+            }`}
+          >
+            <span className="text-sm truncate">
+              {player.name}
+              {playerId === userId && " (you)"}
+            </span>
+            <span
+              className={`flex items-center gap-1 font-mono text-lg font-bold ${
+                lowTime ? "text-red-500 animate-pulse" : ""
+              }`}
+            >
+              <Clock className="h-4 w-4" />
+              {formatClock(timeLeft)}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import type React from "react"
 import { useState } from "react"
 import { doc, setDoc, getDoc } from "firebase/firestore"
 import { db } from "@/lib/firebase"
+import { DEFAULT_RATING, getRankTier } from "@/lib/ratings"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -90,10 +91,11 @@ export default function UsernameSetup({ user, onUsernameSet }: UsernameSetupProp
           gamesPlayed: 0,
           gamesWon: 0,
           winRate: 0,
-          rank: "Rookie",
+          rank: getRankTier(DEFAULT_RATING),
           xp: 0,
           level: 1,
         },
+        ratings: {},
         preferences: {
           gameMode: "tic-tac-toe",
           notifications: true,
@@ -0,0 +1,37 @@
+"use client"
+
+import * as React from "react"
+
+import { loadRenderer } from "@/components/game-renderers/registry"
+import type { AnyGameRenderer } from "@/components/game-renderers/types"
+
+type RendererStatus = "loading" | "ready" | "unsupported" | "error"
+
+/**
+ * Resolves the registered renderer for a game type, lazy-loading it on first use.
+ */
+export function useGameRenderer(gameType: string): { renderer: AnyGameRenderer | null; status: RendererStatus } {
+  const [state, setState] = React.useState<{ renderer: AnyGameRenderer | null; status: RendererStatus }>({
+    renderer: null,
+    status: "loading",
+  })
+
+  React.useEffect(() => {
+    let cancelled = false
+    setState({ renderer: null, status: "loading" })
+    loadRenderer(gameType)
+      .then((renderer) => {
+        if (cancelled) return
+        setState(renderer ? { renderer, status: "ready" } : { renderer: null, status: "unsupported" })
+      })
+      .catch((error) => {
+        console.error(`Failed to load renderer for ${gameType}:`, error)
+        if (!cancelled) setState({ renderer: null, status: "error" })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [gameType])
+
+  return state
+}
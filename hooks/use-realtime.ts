@@ -0,0 +1,46 @@
+"use client"
+
+import * as React from "react"
+
+import { realtimeClient, type RealtimeEvent } from "@/lib/realtime"
+
+/**
+ * Subscribes to the backend push channel for a user (and optionally a room, as a player or spectator).
+ * Returns whether the socket is currently connected so callers can fall back to polling.
+ */
+export function useRealtime(
+  userId: string,
+  onEvent: (event: RealtimeEvent) => void,
+  roomId?: string,
+  spectator = false
+): { connected: boolean } {
+  const [connected, setConnected] = React.useState(realtimeClient.isConnected())
+  const onEventRef = React.useRef(onEvent)
+
+  React.useEffect(() => {
+    onEventRef.current = onEvent
+  }, [onEvent])
+
+  React.useEffect(() => {
+    realtimeClient.connect(userId)
+    const unsubscribeStatus = realtimeClient.onStatusChange(setConnected)
+    const unsubscribeEvents = realtimeClient.subscribe((event) => {
+      if (roomId && "roomId" in event && event.roomId !== roomId && event.type !== "match-found") return
+      onEventRef.current(event)
+    })
+    if (roomId) {
+      realtimeClient.joinRoom(roomId, spectator)
+    }
+
+    return () => {
+      if (roomId) {
+        realtimeClient.leaveRoom(roomId)
+      }
+      unsubscribeEvents()
+      unsubscribeStatus()
+      realtimeClient.disconnect()
+    }
+  }, [userId, roomId, spectator])
+
+  return { connected }
+}
@@ -0,0 +1,22 @@
+import { auth } from "@/lib/firebase"
+
+/**
+ * Returns the signed-in user's Firebase ID token. The backend derives the caller's user id from it.
+ */
+export async function getIdToken(): Promise<string> {
+  const currentUser = auth.currentUser
+  if (!currentUser) {
+    throw new Error("Not signed in")
+  }
+  return currentUser.getIdToken()
+}
+
+/**
+ * fetch() with the Firebase ID token attached as a Bearer Authorization header.
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = await getIdToken()
+  const headers = new Headers(init.headers)
+  headers.set("Authorization", `Bearer ${token}`)
+  return fetch(input, { ...init, headers })
+}
@@ -0,0 +1,38 @@
+// Keep in sync with backend/utils/clocks.js
+export interface TimeControl {
+  moveSeconds: number | null
+  bankSeconds: number | null
+  incrementSeconds: number
+}
+
+export interface TurnClock {
+  timeControl: TimeControl
+  remainingMs: { [userId: string]: number } | null
+  turnUserId: string | null
+  turnStartedAt: number
+}
+
+/**
+ * Milliseconds a player has left at server time `now`. For the player on turn this is
+ * whichever of the per-move limit and their bank runs out first; for everyone else
+ * it is their bank (or the full per-move limit for games without one).
+ */
+export function getTimeLeft(clock: TurnClock, userId: string, now: number): number {
+  const onTurn = clock.turnUserId === userId
+  const elapsed = onTurn ? now - clock.turnStartedAt : 0
+  const limits: number[] = []
+  if (clock.timeControl.moveSeconds && (onTurn || !clock.remainingMs)) {
+    limits.push(clock.timeControl.moveSeconds * 1000 - elapsed)
+  }
+  if (clock.remainingMs) {
+    limits.push((clock.remainingMs[userId] ?? 0) - elapsed)
+  }
+  return Math.max(0, Math.min(...limits))
+}
+
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const mins = Math.floor(totalSeconds / 60)
+  const secs = totalSeconds % 60
+  return `${mins}:${secs.toString().padStart(2, "0")}`
+}
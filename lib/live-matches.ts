@@ -0,0 +1,23 @@
+import { authFetch } from "@/lib/api"
+
+export interface LiveMatch {
+  roomId: string
+  gameType: string
+  gameName: string
+  players: { userId: string; name: string }[]
+  moveCount: number
+  startedAt: number
+  spectators: number
+}
+
+/**
+ * Lists in-progress public matches that can be watched, most-watched first.
+ */
+export async function fetchLiveMatches(): Promise<LiveMatch[]> {
+  const res = await authFetch("http://localhost:3001/live")
+  if (!res.ok) {
+    throw new Error(`Failed to load live matches: ${res.status} ${res.statusText}`)
+  }
+  const data = await res.json()
+  return data.matches
+}
@@ -0,0 +1,78 @@
+import { authFetch } from "@/lib/api"
+import type { RatingChange } from "@/lib/ratings"
+
+export interface MatchMove {
+  userId: string
+  move: { [key: string]: any }
+  at: number
+}
+
+export interface MatchRecord {
+  matchId: string
+  gameType: string
+  players: { userId: string; username: string; seat?: number; symbol?: string; color?: string | null }[]
+  playerIds: string[]
+  moves: MatchMove[]
+  result: { winnerIds: string[]; isDraw: boolean; standings?: { userId: string; place: number }[] }
+  reason: "win" | "draw" | "forfeit" | "timeout" | "resign" | "agreement" | "abandoned"
+  ratingChanges: { [userId: string]: RatingChange } | null
+  startedAt: number
+  endedAt: number
+  durationMs: number
+}
+
+export interface MatchHistoryPage {
+  matches: MatchRecord[]
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+/**
+ * Fetches one page of a user's finished matches, newest first.
+ */
+export async function fetchMatchHistory(userId: string, page: number, pageSize = 10): Promise<MatchHistoryPage> {
+  const res = await authFetch(
+    `http://localhost:3001/users/${encodeURIComponent(userId)}/matches?page=${page}&pageSize=${pageSize}`
+  )
+  if (!res.ok) {
+    throw new Error(`Failed to load match history: ${res.status} ${res.statusText}`)
+  }
+  return res.json()
+}
+
+export function getMatchOutcome(match: MatchRecord, userId: string): "Victory" | "Defeat" | "Draw" {
+  if (match.result.isDraw) return "Draw"
+  return match.result.winnerIds.includes(userId) ? "Victory" : "Defeat"
+}
+
+// 1 -> "1st", 2 -> "2nd", 11 -> "11th"
+export function formatPlace(place: number): string {
+  const tens = place % 100
+  if (tens >= 11 && tens <= 13) return `${place}th`
+  const suffix = ["th", "st", "nd", "rd"][place % 10] || "th"
+  return `${place}${suffix}`
+}
+
+export interface ReplayFrame {
+  gameState: any
+  move: MatchMove | null
+}
+
+export interface MatchReplay {
+  match: MatchRecord
+  players: { [userId: string]: { name: string } }
+  frames: ReplayFrame[]
+}
+
+/**
+ * Fetches a finished match with every intermediate board state, rebuilt by the backend from the move list.
+ */
+export async function fetchMatchReplay(matchId: string): Promise<MatchReplay> {
+  const res = await authFetch(`http://localhost:3001/matches/${encodeURIComponent(matchId)}/replay`)
+  if (!res.ok) {
+    throw new Error(`Failed to load replay: ${res.status} ${res.statusText}`)
+  }
+  return res.json()
+}
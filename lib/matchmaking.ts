@@ -1,4 +1,7 @@
 import { db } from "@/lib/firebase";
+import { realtimeClient } from "@/lib/realtime";
+import { authFetch } from "@/lib/api";
+import type { RoomOptions } from "@/shared/rules/types";
 
 export interface MatchmakingEntry {
   id?: string;
@@ -13,6 +16,31 @@ export interface MatchmakingEntry {
   matchedAt?: number;
 }
 
+export interface MatchmakingStatus {
+  matched: boolean;
+  roomId?: string;
+  queued?: boolean;
+  position?: number;
+  queueLength?: number;
+  rating?: number;
+  waitSeconds?: number;
+  searchWindow?: { min: number; max: number };
+  estimatedWaitSeconds?: number | null;
+}
+
+// A game the backend still has the user seated in, from GET /me/session
+export interface CurrentSession {
+  roomId: string;
+  gameType: string;
+  gameName: string;
+  status: "waiting" | "active" | "finished";
+  players: { userId: string; name: string }[];
+  startedAt: number;
+}
+
+// With the socket up, the status endpoint is only needed to refresh the search window
+const STATUS_REFRESH_SECONDS = 5;
+
 export class MatchmakingService {
   private matchmakingInProgress = new Set<string>();
   private listeners = new Map<string, () => void>();
@@ -27,10 +55,10 @@ export class MatchmakingService {
     }
     this.matchmakingInProgress.add(userId);
     try {
-      const res = await fetch(`http://localhost:3001/matchmaking/${gameType}`, {
+      const res = await authFetch(`http://localhost:3001/matchmaking/${gameType}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, username }),
+        body: JSON.stringify({ username }),
       });
       if (!res.ok) {
         throw new Error(`Failed to join matchmaking: ${res.status} ${res.statusText}`);
@@ -47,32 +75,76 @@ export class MatchmakingService {
   }
 
   /**
-   * Polls the backend for match status. Calls onMatch(roomId) when matched.
+   * Waits for a match-found push on the realtime channel. Polls the backend for match status every
+   * second while the socket is down, and every few seconds otherwise to report search progress
+   * through onStatus. Calls onMatch(roomId) once when matched.
    */
-  listenForMatch(userId: string, gameType: string, onMatch: (roomId: string) => void): () => void {
+  listenForMatch(
+    userId: string,
+    gameType: string,
+    onMatch: (roomId: string) => void,
+    onStatus?: (status: MatchmakingStatus) => void
+  ): () => void {
     let stopped = false;
+    const finish = (roomId: string) => {
+      if (stopped) return;
+      stop();
+      onMatch(roomId);
+    };
+
+    realtimeClient.connect(userId);
+    const unsubscribe = realtimeClient.subscribe((event) => {
+      if (event.type === "match-found") {
+        finish(event.roomId);
+      }
+    });
+
+    const checkStatus = async () => {
+      try {
+        // This endpoint is game-agnostic since it checks user session mapping
+        const res = await authFetch(`http://localhost:3001/matchmaking/${gameType}/status`);
+        if (res.ok) {
+          const data: MatchmakingStatus = await res.json();
+          if (data.matched && data.roomId) {
+            finish(data.roomId);
+          } else if (!stopped) {
+            onStatus?.(data);
+          }
+        }
+      } catch (e) {
+        console.error("Error polling for match status:", e);
+      }
+    };
+
+    // Catch matches pushed while the socket was still connecting
+    const unsubscribeStatus = realtimeClient.onStatusChange((connected) => {
+      if (connected) checkStatus();
+    });
+
     const poll = async () => {
+      let seconds = 0;
       while (!stopped) {
-        try {
-          // This endpoint is game-agnostic since it checks user session mapping
-          const res = await fetch(`http://localhost:3001/matchmaking/${gameType}/status?userId=${userId}`);
-          if (res.ok) {
-            const data = await res.json();
-            if (data.matched && data.roomId) {
-              onMatch(data.roomId);
-              break;
-            }
-          }
-        } catch (e) {
-          console.error("Error polling for match status:", e);
+        if (!realtimeClient.isConnected() || seconds % STATUS_REFRESH_SECONDS === 0) {
+          await checkStatus();
         }
-        await new Promise((resolve) => setTimeout(resolve, 1000)); // poll every second
+        seconds++;
+        await new Promise((resolve) => setTimeout(resolve, 1000));
       }
     };
-    poll();
-    return () => {
+
+    const stop = () => {
+      if (stopped) return;
       stopped = true;
+      unsubscribe();
+      unsubscribeStatus();
+      realtimeClient.disconnect();
+      this.listeners.delete(userId);
     };
+
+    this.cleanupListener(userId);
+    this.listeners.set(userId, stop);
+    poll();
+    return stop;
   }
 
   /**
@@ -83,10 +155,8 @@ export class MatchmakingService {
     this.cleanupListener(userId);
     try {
       // This endpoint is game-agnostic since it removes user from any queue
-      const res = await fetch(`http://localhost:3001/matchmaking/${gameType}/cancel`, {
+      const res = await authFetch(`http://localhost:3001/matchmaking/${gameType}/cancel`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId }),
       });
       if (!res.ok) {
         throw new Error(`Failed to cancel matchmaking: ${res.status} ${res.statusText}`);
@@ -98,6 +168,58 @@ export class MatchmakingService {
     }
   }
 
+  /**
+   * Session the backend still has the user seated in, e.g. after a reload. Null if there is none.
+   */
+  async getCurrentSession(): Promise<CurrentSession | null> {
+    try {
+      const res = await authFetch("http://localhost:3001/me/session");
+      if (!res.ok) return null;
+      const data: { session: CurrentSession | null } = await res.json();
+      return data.session;
+    } catch (error) {
+      console.error("Error checking for a current session:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Creates a private room the user waits in until a friend joins with the invite code.
+   * options are the game's room settings; the server fills in defaults for anything left out.
+   */
+  async createPrivateRoom(
+    username: string,
+    gameType: string,
+    options: RoomOptions = {}
+  ): Promise<{ roomId: string; inviteCode: string }> {
+    const res = await authFetch(`http://localhost:3001/rooms/${gameType}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, options }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || `Failed to create room: ${res.status} ${res.statusText}`);
+    }
+    return res.json();
+  }
+
+  /**
+   * Joins a friend's private room by invite code. Returns the room to open.
+   */
+  async joinPrivateRoom(username: string, inviteCode: string): Promise<{ roomId: string; gameType: string }> {
+    const res = await authFetch(`http://localhost:3001/rooms/join/${encodeURIComponent(inviteCode.trim().toUpperCase())}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || `Failed to join room: ${res.status} ${res.statusText}`);
+    }
+    return res.json();
+  }
+
   private cleanupListener(userId: string): void {
     const existingUnsub = this.listeners.get(userId);
     if (existingUnsub) {
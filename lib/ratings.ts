@@ -0,0 +1,31 @@
+export const DEFAULT_RATING = 1200
+
+// Keep in sync with backend/utils/ratings.js
+export const RANK_TIERS = [
+  { name: "Bronze", minRating: 0 },
+  { name: "Silver", minRating: 1100 },
+  { name: "Gold", minRating: 1300 },
+  { name: "Platinum", minRating: 1500 },
+  { name: "Diamond", minRating: 1700 },
+  { name: "Master", minRating: 1900 },
+]
+
+export interface RatingChange {
+  before: number
+  after: number
+}
+
+export function getRating(ratings: { [gameType: string]: number } | undefined, gameType: string): number {
+  const rating = ratings?.[gameType]
+  return typeof rating === "number" ? rating : DEFAULT_RATING
+}
+
+export function getRankTier(rating: number): string {
+  let tier = RANK_TIERS[0]
+  for (const candidate of RANK_TIERS) {
+    if (rating >= candidate.minRating) {
+      tier = candidate
+    }
+  }
+  return tier.name
+}
@@ -0,0 +1,176 @@
+import { getIdToken } from "@/lib/api"
+import type { GameSession } from "@/lib/session"
+
+export type RealtimeEvent =
+  | { type: "match-found"; roomId: string; gameType: string }
+  | { type: "state-changed"; roomId: string; session: GameSession }
+  | { type: "opponent-left"; roomId: string; userId: string }
+  | { type: "result-screen"; roomId: string; status: "open" | "closed" }
+  | { type: "spectators"; roomId: string; count: number }
+
+type EventListener = (event: RealtimeEvent) => void
+type StatusListener = (connected: boolean) => void
+
+const REALTIME_URL = "ws://localhost:3001/ws"
+const MAX_RECONNECT_DELAY = 10000
+
+export class RealtimeClient {
+  private socket: WebSocket | null = null
+  private userId: string | null = null
+  private connected = false
+  private refCount = 0
+  private reconnectDelay = 1000
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private rooms = new Map<string, { count: number; spectator: boolean }>()
+  private eventListeners = new Set<EventListener>()
+  private statusListeners = new Set<StatusListener>()
+
+  /**
+   * Opens (or reuses) the socket for a user. Every connect() must be paired with a disconnect().
+   */
+  connect(userId: string): void {
+    this.refCount++
+    if (this.userId !== userId) {
+      this.userId = userId
+      this.closeSocket()
+      this.open()
+    } else if (!this.socket && !this.reconnectTimer) {
+      this.open()
+    }
+  }
+
+  disconnect(): void {
+    this.refCount = Math.max(0, this.refCount - 1)
+    if (this.refCount === 0) {
+      this.userId = null
+      this.closeSocket()
+    }
+  }
+
+  /**
+   * Starts receiving a room's events. Spectators are counted separately and shown to the players.
+   */
+  joinRoom(roomId: string, spectator = false): void {
+    const room = this.rooms.get(roomId)
+    if (room) {
+      room.count++
+      return
+    }
+    this.rooms.set(roomId, { count: 1, spectator })
+    this.send({ type: "join-room", roomId, spectator })
+  }
+
+  leaveRoom(roomId: string): void {
+    const room = this.rooms.get(roomId)
+    if (!room) return
+    if (--room.count > 0) return
+    this.rooms.delete(roomId)
+    this.send({ type: "leave-room", roomId })
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.eventListeners.add(listener)
+    return () => {
+      this.eventListeners.delete(listener)
+    }
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener)
+    listener(this.connected)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  private async open(): Promise<void> {
+    if (typeof window === "undefined" || !this.userId) return
+
+    const userId = this.userId
+    let token: string
+    try {
+      token = await getIdToken()
+    } catch (error) {
+      console.error("Realtime channel needs a signed-in user:", error)
+      this.scheduleReconnect()
+      return
+    }
+    // The user may have changed or disconnected while the token was loading
+    if (this.userId !== userId || this.socket) return
+
+    const socket = new WebSocket(`${REALTIME_URL}?token=${encodeURIComponent(token)}`)
+    this.socket = socket
+
+    socket.onopen = () => {
+      console.log("📡 Realtime channel connected")
+      this.reconnectDelay = 1000
+      // Re-join rooms after a reconnect so room events keep flowing
+      this.rooms.forEach(({ spectator }, roomId) => this.send({ type: "join-room", roomId, spectator }))
+      this.setConnected(true)
+    }
+
+    socket.onmessage = (message) => {
+      let event: RealtimeEvent
+      try {
+        event = JSON.parse(message.data)
+      } catch (error) {
+        console.error("Invalid realtime message:", error)
+        return
+      }
+      this.eventListeners.forEach((listener) => listener(event))
+    }
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      console.log("📴 Realtime channel closed, falling back to polling")
+      this.socket = null
+      this.setConnected(false)
+      this.scheduleReconnect()
+    }
+
+    socket.onerror = () => {
+      socket.close()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.refCount === 0 || this.reconnectTimer) return
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.open()
+    }, this.reconnectDelay)
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY)
+  }
+
+  private closeSocket(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    if (this.socket) {
+      const socket = this.socket
+      this.socket = null
+      socket.close()
+    }
+    this.setConnected(false)
+  }
+
+  private send(message: object): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message))
+    }
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) return
+    this.connected = connected
+    this.statusListeners.forEach((listener) => listener(connected))
+  }
+}
+
+export const realtimeClient = new RealtimeClient()
+export default realtimeClient
@@ -0,0 +1,45 @@
+import type { PlayersMap, Seat, SessionResult } from "@/components/game-renderers/types"
+import type { TurnClock } from "@/lib/clocks"
+import type { RatingChange } from "@/lib/ratings"
+
+export interface RematchState {
+  offeredBy: string
+  responses: { [userId: string]: "accepted" | "declined" }
+  roomId: string | null
+}
+
+export interface DrawOffer {
+  offeredBy: string
+  responses: { [userId: string]: "accepted" | "declined" }
+  moveCount: number
+}
+
+export type SessionEndReason = "win" | "draw" | "forfeit" | "timeout" | "resign" | "agreement" | "abandoned"
+
+/**
+ * A game session as the backend sends it, from GET /game/:gameType/:roomId and the
+ * realtime "state-changed" event. gameState is the game's own state (null while a private
+ * room waits for its second player).
+ */
+export interface GameSession<TState = any> {
+  roomId: string
+  gameType?: string
+  gameState: TState
+  players: PlayersMap
+  seats: Seat[]
+  status: "waiting" | "active" | "finished"
+  result?: SessionResult
+  eliminated?: string[]
+  moves?: unknown[]
+  ratingChanges?: { [userId: string]: RatingChange } | null
+  inviteCode?: string
+  rematch?: RematchState | null
+  clock?: TurnClock | null
+  serverTime?: number
+  drawOffer?: DrawOffer | null
+  disconnected?: { [userId: string]: number } | null
+  // Bumped by the server on every write; moves send it back as expectedVersion
+  version?: number
+  endReason?: SessionEndReason
+  startedAt?: number
+}
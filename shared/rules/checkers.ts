@@ -0,0 +1,320 @@
+import type { GameResult, GameRules, MoveValidation, RulesPlayer } from "./types"
+
+// English draughts: 8x8 board, pieces on the dark squares, men move and capture diagonally
+// forward, kings both ways. Captures are mandatory and a jump sequence must be finished, but
+// the player may pick any capture, not necessarily the longest one.
+export const CHECKERS_SIZE = 8
+
+// Player 0 starts on the bottom three rows and moves first, player 1 starts on the top rows
+export interface CheckersPiece {
+  player: number
+  king: boolean
+}
+
+// [row, col], row 0 at the top
+export type CheckersSquare = [number, number]
+
+// A piece's whole turn: the squares it lands on in order. A plain move has one step,
+// a multi-jump one step per captured piece.
+export interface CheckersMove {
+  from: CheckersSquare
+  path: CheckersSquare[]
+}
+
+export interface CheckersLastMove extends CheckersMove {
+  player: number
+  captured: CheckersSquare[]
+  // Whether each captured piece was a king, in the same order as captured
+  capturedKings: boolean[]
+  crowned: boolean
+}
+
+export type CheckersDrawReason = "repetition" | "no-progress"
+
+export interface CheckersState {
+  board: (CheckersPiece | null)[][]
+  currentPlayer: number
+  players: RulesPlayer[]
+  finished: boolean
+  winner: RulesPlayer | null
+  isDraw: boolean
+  drawReason: CheckersDrawReason | null
+  lastMove: CheckersLastMove | null
+  // Moves (by either player) since the last capture or man move
+  pliesWithoutProgress: number
+  // How often each position has occurred since the last capture or man move, keyed by positionKey()
+  positionCounts: { [position: string]: number }
+}
+
+// A position repeated this many times is a draw
+export const CHECKERS_REPETITION_LIMIT = 3
+// 40 moves by each player without a capture or a man moving is a draw
+export const CHECKERS_NO_PROGRESS_PLIES = 80
+
+export function isDarkSquare(row: number, col: number): boolean {
+  return (row + col) % 2 === 1
+}
+
+function onBoard(row: number, col: number): boolean {
+  return row >= 0 && row < CHECKERS_SIZE && col >= 0 && col < CHECKERS_SIZE
+}
+
+function directionsFor(piece: CheckersPiece): number[][] {
+  const forward = piece.player === 0 ? -1 : 1
+  const rows = piece.king ? [forward, -forward] : [forward]
+  return rows.flatMap((dRow) => [[dRow, -1], [dRow, 1]])
+}
+
+function crownRow(player: number): number {
+  return player === 0 ? 0 : CHECKERS_SIZE - 1
+}
+
+function positionKey(board: (CheckersPiece | null)[][], currentPlayer: number): string {
+  const cells = board
+    .flat()
+    .map((piece) => (piece ? `${piece.player}${piece.king ? "k" : "m"}` : "-"))
+    .join("")
+  return `${currentPlayer}:${cells}`
+}
+
+// Every way the piece on (row, col) can keep jumping, as paths of landing squares.
+// Jumped pieces stay on the board until the move is over, so they can be neither jumped
+// twice nor landed on. A man reaching the crown row is crowned and its move ends there.
+function jumpPaths(
+  board: (CheckersPiece | null)[][],
+  piece: CheckersPiece,
+  row: number,
+  col: number,
+  captured: string[]
+): CheckersSquare[][] {
+  const paths: CheckersSquare[][] = []
+  for (const [dRow, dCol] of directionsFor(piece)) {
+    const overRow = row + dRow
+    const overCol = col + dCol
+    const toRow = row + 2 * dRow
+    const toCol = col + 2 * dCol
+    if (!onBoard(toRow, toCol) || board[toRow][toCol] !== null) continue
+    const over = board[overRow][overCol]
+    if (!over || over.player === piece.player || captured.includes(`${overRow},${overCol}`)) continue
+
+    const landing: CheckersSquare = [toRow, toCol]
+    if (!piece.king && toRow === crownRow(piece.player)) {
+      paths.push([landing])
+      continue
+    }
+    const continuations = jumpPaths(board, piece, toRow, toCol, [...captured, `${overRow},${overCol}`])
+    if (continuations.length === 0) {
+      paths.push([landing])
+    } else {
+      for (const rest of continuations) {
+        paths.push([landing, ...rest])
+      }
+    }
+  }
+  return paths
+}
+
+// The moving piece is lifted off its square while searching, so a king can jump in a loop
+// back across the square it started from
+function movesForPlayer(board: (CheckersPiece | null)[][], player: number): CheckersMove[] {
+  const captures: CheckersMove[] = []
+  const steps: CheckersMove[] = []
+  for (let row = 0; row < CHECKERS_SIZE; row++) {
+    for (let col = 0; col < CHECKERS_SIZE; col++) {
+      const piece = board[row][col]
+      if (!piece || piece.player !== player) continue
+
+      const lifted = board.map((cells) => [...cells])
+      lifted[row][col] = null
+      for (const path of jumpPaths(lifted, piece, row, col, [])) {
+        captures.push({ from: [row, col], path })
+      }
+      for (const [dRow, dCol] of directionsFor(piece)) {
+        const toRow = row + dRow
+        const toCol = col + dCol
+        if (onBoard(toRow, toCol) && board[toRow][toCol] === null) {
+          steps.push({ from: [row, col], path: [[toRow, toCol]] })
+        }
+      }
+    }
+  }
+  // Captures are mandatory
+  return captures.length > 0 ? captures : steps
+}
+
+function sameSquare(a: CheckersSquare, b: CheckersSquare): boolean {
+  return a[0] === b[0] && a[1] === b[1]
+}
+
+function isSquare(value: unknown): value is CheckersSquare {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((n) => Number.isInteger(n)) &&
+    onBoard(value[0], value[1])
+  )
+}
+
+export function sameCheckersMove(a: CheckersMove, b: CheckersMove): boolean {
+  return (
+    sameSquare(a.from, b.from) &&
+    a.path.length === b.path.length &&
+    a.path.every((square, i) => sameSquare(square, b.path[i]))
+  )
+}
+
+export const checkersRules: GameRules<CheckersState, CheckersMove> = {
+  initialState(players: RulesPlayer[]): CheckersState {
+    const board = Array(CHECKERS_SIZE)
+      .fill(null)
+      .map((_, row) =>
+        Array(CHECKERS_SIZE)
+          .fill(null)
+          .map((_, col): CheckersPiece | null => {
+            if (!isDarkSquare(row, col)) return null
+            if (row < 3) return { player: 1, king: false }
+            if (row >= CHECKERS_SIZE - 3) return { player: 0, king: false }
+            return null
+          })
+      )
+    return {
+      board,
+      currentPlayer: 0,
+      players,
+      finished: false,
+      winner: null,
+      isDraw: false,
+      drawReason: null,
+      lastMove: null,
+      pliesWithoutProgress: 0,
+      positionCounts: { [positionKey(board, 0)]: 1 },
+    }
+  },
+
+  validateMove(state: CheckersState, userId: string, move: CheckersMove): MoveValidation {
+    if (state.finished) {
+      return { valid: false, error: "Game is finished" }
+    }
+    const playerIndex = state.players.findIndex((p) => p.userId === userId)
+    if (playerIndex !== state.currentPlayer) {
+      return { valid: false, error: "Not your turn" }
+    }
+    if (!move || !isSquare(move.from) || !Array.isArray(move.path) || move.path.length === 0 || !move.path.every(isSquare)) {
+      return { valid: false, error: "Invalid move" }
+    }
+    const piece = state.board[move.from[0]][move.from[1]]
+    if (!piece || piece.player !== playerIndex) {
+      return { valid: false, error: "No piece of yours on that square" }
+    }
+
+    const legal = movesForPlayer(state.board, playerIndex)
+    if (legal.some((candidate) => sameCheckersMove(candidate, move))) {
+      return { valid: true }
+    }
+    const isCapture = Math.abs(move.path[0][0] - move.from[0]) === 2
+    if (!isCapture && legal.some((candidate) => Math.abs(candidate.path[0][0] - candidate.from[0]) === 2)) {
+      return { valid: false, error: "You must capture" }
+    }
+    const extendsCapture = legal.some(
+      (candidate) =>
+        sameSquare(candidate.from, move.from) &&
+        candidate.path.length > move.path.length &&
+        move.path.every((square, i) => sameSquare(square, candidate.path[i]))
+    )
+    if (extendsCapture) {
+      return { valid: false, error: "You must keep jumping" }
+    }
+    return { valid: false, error: "Illegal move" }
+  },
+
+  applyMove(state: CheckersState, userId: string, move: CheckersMove): CheckersState {
+    const board = state.board.map((row) => [...row])
+    const [fromRow, fromCol] = move.from
+    const piece = board[fromRow][fromCol]!
+    board[fromRow][fromCol] = null
+
+    const captured: CheckersSquare[] = []
+    const capturedKings: boolean[] = []
+    let [row, col] = move.from
+    for (const [toRow, toCol] of move.path) {
+      if (Math.abs(toRow - row) === 2) {
+        const over: CheckersSquare = [(row + toRow) / 2, (col + toCol) / 2]
+        capturedKings.push(board[over[0]][over[1]]!.king)
+        board[over[0]][over[1]] = null
+        captured.push(over)
+      }
+      row = toRow
+      col = toCol
+    }
+    const crowned = !piece.king && row === crownRow(piece.player)
+    board[row][col] = { ...piece, king: piece.king || crowned }
+
+    const lastMove: CheckersLastMove = { ...move, player: state.currentPlayer, captured, capturedKings, crowned }
+    const nextPlayer = (state.currentPlayer + 1) % state.players.length
+
+    // A player who cannot move on their turn, or has no pieces left, loses
+    if (movesForPlayer(board, nextPlayer).length === 0) {
+      return {
+        ...state,
+        board,
+        lastMove,
+        finished: true,
+        winner: state.players[state.currentPlayer],
+        isDraw: false,
+      }
+    }
+
+    // Captures and man moves can never be undone, so earlier positions cannot come back
+    const progress = captured.length > 0 || !piece.king
+    const key = positionKey(board, nextPlayer)
+    const positionCounts = progress ? { [key]: 1 } : { ...state.positionCounts, [key]: (state.positionCounts[key] || 0) + 1 }
+    const pliesWithoutProgress = progress ? 0 : state.pliesWithoutProgress + 1
+
+    let drawReason: CheckersDrawReason | null = null
+    if (positionCounts[key] >= CHECKERS_REPETITION_LIMIT) {
+      drawReason = "repetition"
+    } else if (pliesWithoutProgress >= CHECKERS_NO_PROGRESS_PLIES) {
+      drawReason = "no-progress"
+    }
+
+    return {
+      ...state,
+      board,
+      lastMove,
+      currentPlayer: nextPlayer,
+      positionCounts,
+      pliesWithoutProgress,
+      finished: drawReason !== null,
+      isDraw: drawReason !== null,
+      drawReason,
+    }
+  },
+
+  result(state: CheckersState): GameResult {
+    if (!state.finished) return { finished: false }
+    return {
+      finished: true,
+      winnerIds: state.winner ? [state.winner.userId] : [],
+      isDraw: state.isDraw,
+    }
+  },
+
+  legalMoves(state: CheckersState, userId: string): CheckersMove[] {
+    if (state.finished || state.players[state.currentPlayer]?.userId !== userId) return []
+    return movesForPlayer(state.board, state.currentPlayer)
+  },
+
+  currentPlayerId(state: CheckersState): string | null {
+    if (state.finished) return null
+    return state.players[state.currentPlayer].userId
+  },
+
+  forfeit(state: CheckersState, loserId: string): CheckersState {
+    return {
+      ...state,
+      finished: true,
+      winner: state.players.find((p) => p.userId !== loserId) || null,
+      isDraw: false,
+    }
+  },
+}
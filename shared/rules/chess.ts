@@ -0,0 +1,561 @@
+import type { GameResult, GameRules, MoveValidation, RulesPlayer } from "./types"
+
+// Standard chess. Player 0 plays white. Draws by repetition, the fifty-move rule and
+// insufficient material are applied automatically rather than claimed.
+
+export type ChessColor = "w" | "b"
+export type ChessPieceType = "p" | "n" | "b" | "r" | "q" | "k"
+export type ChessPromotion = "q" | "r" | "b" | "n"
+
+export interface ChessPiece {
+  color: ChessColor
+  type: ChessPieceType
+}
+
+// Squares are named in algebraic notation ("e4"); board[0] is the 8th rank, board[0][0] is a8
+export interface ChessMove {
+  from: string
+  to: string
+  // Required when a pawn reaches the last rank
+  promotion?: ChessPromotion
+}
+
+export interface ChessHistoryEntry extends ChessMove {
+  san: string
+}
+
+export type ChessEndReason = "checkmate" | "stalemate" | "repetition" | "fifty-move" | "insufficient-material"
+
+export interface ChessState {
+  board: (ChessPiece | null)[][]
+  currentPlayer: number
+  players: RulesPlayer[]
+  // Castling rights that are still available, as in FEN ("KQkq", "" when none are left)
+  castling: string
+  // Square a pawn skipped with its double step on the last move, capturable en passant
+  enPassant: string | null
+  // Half-moves since the last capture or pawn move, for the fifty-move rule
+  halfmoveClock: number
+  fullmoveNumber: number
+  // How often each position has occurred since the last capture or pawn move
+  positionCounts: { [position: string]: number }
+  history: ChessHistoryEntry[]
+  lastMove: ChessMove | null
+  // Whether the player on move is in check
+  check: boolean
+  finished: boolean
+  winner: RulesPlayer | null
+  isDraw: boolean
+  endReason: ChessEndReason | null
+}
+
+export const CHESS_PROMOTIONS: ChessPromotion[] = ["q", "r", "b", "n"]
+export const CHESS_REPETITION_LIMIT = 3
+export const CHESS_FIFTY_MOVE_PLIES = 100
+
+type Board = (ChessPiece | null)[][]
+type Coord = [number, number]
+
+interface InternalMove {
+  from: Coord
+  to: Coord
+  piece: ChessPiece
+  captured: ChessPiece | null
+  promotion?: ChessPromotion
+  castle?: "K" | "Q"
+  enPassant?: boolean
+}
+
+const BACK_RANK: ChessPieceType[] = ["r", "n", "b", "q", "k", "b", "n", "r"]
+const KNIGHT_STEPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]]
+const KING_STEPS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]]
+const ROOK_DIRECTIONS = [[-1, 0], [1, 0], [0, -1], [0, 1]]
+const BISHOP_DIRECTIONS = [[-1, -1], [-1, 1], [1, -1], [1, 1]]
+
+export function squareName([row, col]: Coord): string {
+  return `${"abcdefgh"[col]}${8 - row}`
+}
+
+export function parseSquare(name: unknown): Coord | null {
+  if (typeof name !== "string" || !/^[a-h][1-8]$/.test(name)) return null
+  return [8 - Number(name[1]), name.charCodeAt(0) - 97]
+}
+
+function colorOf(player: number): ChessColor {
+  return player === 0 ? "w" : "b"
+}
+
+function opponent(color: ChessColor): ChessColor {
+  return color === "w" ? "b" : "w"
+}
+
+function onBoard(row: number, col: number): boolean {
+  return row >= 0 && row < 8 && col >= 0 && col < 8
+}
+
+function findKing(board: Board, color: ChessColor): Coord | null {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (piece?.type === "k" && piece.color === color) return [row, col]
+    }
+  }
+  return null
+}
+
+function isAttacked(board: Board, [row, col]: Coord, by: ChessColor): boolean {
+  // Pawns attack towards the side they move to, so look one row back from the target
+  const pawnRow = by === "w" ? row + 1 : row - 1
+  for (const dCol of [-1, 1]) {
+    const piece = onBoard(pawnRow, col + dCol) ? board[pawnRow][col + dCol] : null
+    if (piece?.color === by && piece.type === "p") return true
+  }
+  for (const [dRow, dCol] of KNIGHT_STEPS) {
+    const piece = onBoard(row + dRow, col + dCol) ? board[row + dRow][col + dCol] : null
+    if (piece?.color === by && piece.type === "n") return true
+  }
+  for (const [dRow, dCol] of KING_STEPS) {
+    const piece = onBoard(row + dRow, col + dCol) ? board[row + dRow][col + dCol] : null
+    if (piece?.color === by && piece.type === "k") return true
+  }
+  const rays: [number[][], ChessPieceType[]][] = [
+    [ROOK_DIRECTIONS, ["r", "q"]],
+    [BISHOP_DIRECTIONS, ["b", "q"]],
+  ]
+  for (const [directions, types] of rays) {
+    for (const [dRow, dCol] of directions) {
+      let r = row + dRow
+      let c = col + dCol
+      while (onBoard(r, c)) {
+        const piece = board[r][c]
+        if (piece) {
+          if (piece.color === by && types.includes(piece.type)) return true
+          break
+        }
+        r += dRow
+        c += dCol
+      }
+    }
+  }
+  return false
+}
+
+function inCheck(board: Board, color: ChessColor): boolean {
+  const king = findKing(board, color)
+  return !!king && isAttacked(board, king, opponent(color))
+}
+
+// Moves that follow the pieces' movement rules, before checking whether they leave the king in check
+function pseudoLegalMoves(state: ChessState, color: ChessColor): InternalMove[] {
+  const { board } = state
+  const moves: InternalMove[] = []
+  const enPassant = state.enPassant ? parseSquare(state.enPassant) : null
+
+  const add = (from: Coord, to: Coord, piece: ChessPiece, extra: Partial<InternalMove> = {}) => {
+    moves.push({ from, to, piece, captured: board[to[0]][to[1]], ...extra })
+  }
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (!piece || piece.color !== color) continue
+      const from: Coord = [row, col]
+
+      if (piece.type === "p") {
+        const forward = color === "w" ? -1 : 1
+        const startRow = color === "w" ? 6 : 1
+        const lastRow = color === "w" ? 0 : 7
+        const addPawnMove = (to: Coord, extra: Partial<InternalMove> = {}) => {
+          if (to[0] === lastRow) {
+            for (const promotion of CHESS_PROMOTIONS) add(from, to, piece, { ...extra, promotion })
+          } else {
+            add(from, to, piece, extra)
+          }
+        }
+        if (onBoard(row + forward, col) && !board[row + forward][col]) {
+          addPawnMove([row + forward, col])
+          if (row === startRow && !board[row + 2 * forward][col]) {
+            add(from, [row + 2 * forward, col], piece)
+          }
+        }
+        for (const dCol of [-1, 1]) {
+          const to: Coord = [row + forward, col + dCol]
+          if (!onBoard(to[0], to[1])) continue
+          const target = board[to[0]][to[1]]
+          if (target && target.color !== color) {
+            addPawnMove(to)
+          } else if (enPassant && enPassant[0] === to[0] && enPassant[1] === to[1]) {
+            add(from, to, piece, { enPassant: true, captured: { color: opponent(color), type: "p" } })
+          }
+        }
+        continue
+      }
+
+      if (piece.type === "n" || piece.type === "k") {
+        for (const [dRow, dCol] of piece.type === "n" ? KNIGHT_STEPS : KING_STEPS) {
+          const to: Coord = [row + dRow, col + dCol]
+          if (onBoard(to[0], to[1]) && board[to[0]][to[1]]?.color !== color) add(from, to, piece)
+        }
+        continue
+      }
+
+      const directions =
+        piece.type === "r" ? ROOK_DIRECTIONS : piece.type === "b" ? BISHOP_DIRECTIONS : [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS]
+      for (const [dRow, dCol] of directions) {
+        let r = row + dRow
+        let c = col + dCol
+        while (onBoard(r, c)) {
+          const target = board[r][c]
+          if (target?.color === color) break
+          add(from, [r, c], piece)
+          if (target) break
+          r += dRow
+          c += dCol
+        }
+      }
+    }
+  }
+
+  // Castling: the king and rook have not moved, the squares between them are empty, and the
+  // king is not in check and does not pass through or land on an attacked square
+  const homeRow = color === "w" ? 7 : 0
+  const enemy = opponent(color)
+  const king = board[homeRow][4]
+  if (king?.type === "k" && king.color === color && !isAttacked(board, [homeRow, 4], enemy)) {
+    const sides: ["K" | "Q", number, number[], number[]][] = [
+      ["K", 7, [5, 6], [5, 6]],
+      ["Q", 0, [1, 2, 3], [3, 2]],
+    ]
+    for (const [side, rookCol, empty, safe] of sides) {
+      const right = color === "w" ? side : side.toLowerCase()
+      const rook = board[homeRow][rookCol]
+      if (!state.castling.includes(right)) continue
+      if (rook?.type !== "r" || rook.color !== color) continue
+      if (empty.some((c) => board[homeRow][c])) continue
+      if (safe.some((c) => isAttacked(board, [homeRow, c], enemy))) continue
+      add([homeRow, 4], [homeRow, side === "K" ? 6 : 2], king, { castle: side })
+    }
+  }
+
+  return moves
+}
+
+function applyToBoard(board: Board, move: InternalMove): Board {
+  const next = board.map((row) => [...row])
+  const [fromRow, fromCol] = move.from
+  const [toRow, toCol] = move.to
+  next[fromRow][fromCol] = null
+  next[toRow][toCol] = move.promotion ? { color: move.piece.color, type: move.promotion } : move.piece
+  if (move.enPassant) {
+    next[fromRow][toCol] = null
+  }
+  if (move.castle) {
+    const [rookFrom, rookTo] = move.castle === "K" ? [7, 5] : [0, 3]
+    next[toRow][rookTo] = next[toRow][rookFrom]
+    next[toRow][rookFrom] = null
+  }
+  return next
+}
+
+function legalInternalMoves(state: ChessState, color: ChessColor): InternalMove[] {
+  return pseudoLegalMoves(state, color).filter((move) => !inCheck(applyToBoard(state.board, move), color))
+}
+
+// A lone king, king and one minor piece, or kings and bishops all on squares of one color
+function hasInsufficientMaterial(board: Board): boolean {
+  const others: { piece: ChessPiece; squareColor: number }[] = []
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col]
+      if (piece && piece.type !== "k") others.push({ piece, squareColor: (row + col) % 2 })
+    }
+  }
+  if (others.some(({ piece }) => piece.type === "p" || piece.type === "r" || piece.type === "q")) return false
+  if (others.length <= 1) return true
+  return others.every(({ piece, squareColor }) => piece.type === "b" && squareColor === others[0].squareColor)
+}
+
+// Same position for the repetition rule: same pieces, side to move, castling rights and
+// en passant capture actually available
+function positionKey(state: ChessState): string {
+  const color = colorOf(state.currentPlayer)
+  const enPassant =
+    state.enPassant && legalInternalMoves(state, color).some((move) => move.enPassant) ? state.enPassant : "-"
+  const cells = state.board
+    .flat()
+    .map((piece) => (piece ? (piece.color === "w" ? piece.type.toUpperCase() : piece.type) : "-"))
+    .join("")
+  return `${cells} ${color} ${state.castling || "-"} ${enPassant}`
+}
+
+function toSan(move: InternalMove, legal: InternalMove[]): string {
+  if (move.castle) return move.castle === "K" ? "O-O" : "O-O-O"
+  const to = squareName(move.to)
+  const capture = move.captured ? "x" : ""
+  if (move.piece.type === "p") {
+    const promotion = move.promotion ? `=${move.promotion.toUpperCase()}` : ""
+    return `${capture ? "abcdefgh"[move.from[1]] + "x" : ""}${to}${promotion}`
+  }
+
+  // Name the file, the rank or the whole square of the moving piece when another piece of
+  // the same type could also go there
+  const rivals = legal.filter(
+    (other) =>
+      other.piece.type === move.piece.type &&
+      other.to[0] === move.to[0] &&
+      other.to[1] === move.to[1] &&
+      (other.from[0] !== move.from[0] || other.from[1] !== move.from[1])
+  )
+  let disambiguation = ""
+  if (rivals.length > 0) {
+    const fromName = squareName(move.from)
+    if (rivals.every((other) => other.from[1] !== move.from[1])) {
+      disambiguation = fromName[0]
+    } else if (rivals.every((other) => other.from[0] !== move.from[0])) {
+      disambiguation = fromName[1]
+    } else {
+      disambiguation = fromName
+    }
+  }
+  return `${move.piece.type.toUpperCase()}${disambiguation}${capture}${to}`
+}
+
+function toPublicMove(move: InternalMove): ChessMove {
+  const publicMove: ChessMove = { from: squareName(move.from), to: squareName(move.to) }
+  if (move.promotion) publicMove.promotion = move.promotion
+  return publicMove
+}
+
+function findLegalMove(state: ChessState, move: ChessMove): InternalMove | undefined {
+  const from = parseSquare(move?.from)
+  const to = parseSquare(move?.to)
+  if (!from || !to) return undefined
+  return legalInternalMoves(state, colorOf(state.currentPlayer)).find(
+    (candidate) =>
+      candidate.from[0] === from[0] &&
+      candidate.from[1] === from[1] &&
+      candidate.to[0] === to[0] &&
+      candidate.to[1] === to[1] &&
+      (candidate.promotion ?? null) === (move.promotion ?? null)
+  )
+}
+
+function initialBoard(): Board {
+  return Array(8)
+    .fill(null)
+    .map((_, row) =>
+      Array(8)
+        .fill(null)
+        .map((_, col): ChessPiece | null => {
+          if (row === 0) return { color: "b", type: BACK_RANK[col] }
+          if (row === 1) return { color: "b", type: "p" }
+          if (row === 6) return { color: "w", type: "p" }
+          if (row === 7) return { color: "w", type: BACK_RANK[col] }
+          return null
+        })
+    )
+}
+
+export const chessRules: GameRules<ChessState, ChessMove> = {
+  initialState(players: RulesPlayer[]): ChessState {
+    const state: ChessState = {
+      board: initialBoard(),
+      currentPlayer: 0,
+      players,
+      castling: "KQkq",
+      enPassant: null,
+      halfmoveClock: 0,
+      fullmoveNumber: 1,
+      positionCounts: {},
+      history: [],
+      lastMove: null,
+      check: false,
+      finished: false,
+      winner: null,
+      isDraw: false,
+      endReason: null,
+    }
+    return { ...state, positionCounts: { [positionKey(state)]: 1 } }
+  },
+
+  validateMove(state: ChessState, userId: string, move: ChessMove): MoveValidation {
+    if (state.finished) {
+      return { valid: false, error: "Game is finished" }
+    }
+    const playerIndex = state.players.findIndex((p) => p.userId === userId)
+    if (playerIndex !== state.currentPlayer) {
+      return { valid: false, error: "Not your turn" }
+    }
+    const from = parseSquare(move?.from)
+    const to = parseSquare(move?.to)
+    if (!from || !to) {
+      return { valid: false, error: "Invalid move" }
+    }
+    const piece = state.board[from[0]][from[1]]
+    if (!piece || piece.color !== colorOf(playerIndex)) {
+      return { valid: false, error: "No piece of yours on that square" }
+    }
+    if (move.promotion !== undefined && !CHESS_PROMOTIONS.includes(move.promotion)) {
+      return { valid: false, error: "Invalid promotion piece" }
+    }
+    if (findLegalMove(state, move)) {
+      return { valid: true }
+    }
+    const promotes = piece.type === "p" && (to[0] === 0 || to[0] === 7)
+    if (promotes && !move.promotion && findLegalMove(state, { ...move, promotion: "q" })) {
+      return { valid: false, error: "Choose a piece to promote to" }
+    }
+    const pseudo = pseudoLegalMoves(state, piece.color).some(
+      (candidate) => candidate.from[0] === from[0] && candidate.from[1] === from[1] && candidate.to[0] === to[0] && candidate.to[1] === to[1]
+    )
+    if (pseudo) {
+      return { valid: false, error: state.check ? "You must get out of check" : "That move would leave your king in check" }
+    }
+    return { valid: false, error: "Illegal move" }
+  },
+
+  applyMove(state: ChessState, userId: string, move: ChessMove): ChessState {
+    const color = colorOf(state.currentPlayer)
+    const legal = legalInternalMoves(state, color)
+    const internal = findLegalMove(state, move)!
+    const board = applyToBoard(state.board, internal)
+
+    // Moving the king or a rook, or capturing a rook on its corner, gives up castling on that side
+    const lostRights = new Set<string>()
+    for (const [row, col] of [internal.from, internal.to]) {
+      if (row === 7 && col === 4) ["K", "Q"].forEach((right) => lostRights.add(right))
+      if (row === 0 && col === 4) ["k", "q"].forEach((right) => lostRights.add(right))
+      if (row === 7 && col === 7) lostRights.add("K")
+      if (row === 7 && col === 0) lostRights.add("Q")
+      if (row === 0 && col === 7) lostRights.add("k")
+      if (row === 0 && col === 0) lostRights.add("q")
+    }
+    const castling = [...state.castling].filter((right) => !lostRights.has(right)).join("")
+
+    const doubleStep = internal.piece.type === "p" && Math.abs(internal.to[0] - internal.from[0]) === 2
+    const enPassant = doubleStep ? squareName([(internal.from[0] + internal.to[0]) / 2, internal.from[1]]) : null
+    const progress = internal.piece.type === "p" || !!internal.captured
+    const nextPlayer = (state.currentPlayer + 1) % state.players.length
+
+    const next: ChessState = {
+      ...state,
+      board,
+      currentPlayer: nextPlayer,
+      castling,
+      enPassant,
+      halfmoveClock: progress ? 0 : state.halfmoveClock + 1,
+      fullmoveNumber: color === "b" ? state.fullmoveNumber + 1 : state.fullmoveNumber,
+      lastMove: toPublicMove(internal),
+    }
+
+    const opponentColor = opponent(color)
+    const check = inCheck(board, opponentColor)
+    const replies = legalInternalMoves(next, opponentColor)
+    const san = `${toSan(internal, legal)}${check ? (replies.length === 0 ? "#" : "+") : ""}`
+    next.history = [...state.history, { ...toPublicMove(internal), san }]
+    next.check = check
+
+    // Captures and pawn moves can never be undone, so earlier positions cannot come back
+    const key = positionKey(next)
+    next.positionCounts = progress ? { [key]: 1 } : { ...state.positionCounts, [key]: (state.positionCounts[key] || 0) + 1 }
+
+    let endReason: ChessEndReason | null = null
+    if (replies.length === 0) {
+      endReason = check ? "checkmate" : "stalemate"
+    } else if (hasInsufficientMaterial(board)) {
+      endReason = "insufficient-material"
+    } else if (next.positionCounts[key] >= CHESS_REPETITION_LIMIT) {
+      endReason = "repetition"
+    } else if (next.halfmoveClock >= CHESS_FIFTY_MOVE_PLIES) {
+      endReason = "fifty-move"
+    }
+    if (!endReason) return next
+
+    return {
+      ...next,
+      finished: true,
+      endReason,
+      winner: endReason === "checkmate" ? state.players[state.currentPlayer] : null,
+      isDraw: endReason !== "checkmate",
+    }
+  },
+
+  result(state: ChessState): GameResult {
+    if (!state.finished) return { finished: false }
+    return {
+      finished: true,
+      winnerIds: state.winner ? [state.winner.userId] : [],
+      isDraw: state.isDraw,
+    }
+  },
+
+  legalMoves(state: ChessState, userId: string): ChessMove[] {
+    if (state.finished || state.players[state.currentPlayer]?.userId !== userId) return []
+    return legalInternalMoves(state, colorOf(state.currentPlayer)).map(toPublicMove)
+  },
+
+  currentPlayerId(state: ChessState): string | null {
+    if (state.finished) return null
+    return state.players[state.currentPlayer].userId
+  },
+
+  forfeit(state: ChessState, loserId: string): ChessState {
+    return {
+      ...state,
+      finished: true,
+      winner: state.players.find((p) => p.userId !== loserId) || null,
+      isDraw: false,
+    }
+  },
+}
+
+export interface ChessPgnTags {
+  white: string
+  black: string
+  // "1-0", "0-1", "1/2-1/2", or "*" for an unfinished game
+  result: string
+  date?: Date
+  event?: string
+  site?: string
+  termination?: string
+}
+
+// The game's moves as PGN, with the seven-tag roster and lines wrapped at 80 characters
+export function chessPgn(state: ChessState, tags: ChessPgnTags): string {
+  const date = tags.date
+    ? `${tags.date.getFullYear()}.${String(tags.date.getMonth() + 1).padStart(2, "0")}.${String(tags.date.getDate()).padStart(2, "0")}`
+    : "????.??.??"
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
+  const header = [
+    ["Event", tags.event ?? "Casual game"],
+    ["Site", tags.site ?? "PUGG"],
+    ["Date", date],
+    ["Round", "-"],
+    ["White", tags.white],
+    ["Black", tags.black],
+    ["Result", tags.result],
+    ...(tags.termination ? [["Termination", tags.termination]] : []),
+  ]
+    .map(([name, value]) => `[${name} "${escape(value)}"]`)
+    .join("\n")
+
+  const tokens: string[] = []
+  state.history.forEach((entry, ply) => {
+    if (ply % 2 === 0) tokens.push(`${ply / 2 + 1}.`)
+    tokens.push(entry.san)
+  })
+  tokens.push(tags.result)
+
+  const lines: string[] = []
+  let line = ""
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > 80) {
+      lines.push(line)
+      line = token
+    } else {
+      line = line ? `${line} ${token}` : token
+    }
+  }
+  lines.push(line)
+  return `${header}\n\n${lines.join("\n")}\n`
+}
@@ -0,0 +1,123 @@
+import type { GameResult, GameRules, MoveValidation, RulesPlayer } from "./types"
+
+export const CONNECT_FOUR_ROWS = 6
+export const CONNECT_FOUR_COLUMNS = 7
+
+// Cells hold the index of the player who dropped the disc
+export interface ConnectFourState {
+  board: (number | null)[][]
+  currentPlayer: number
+  players: RulesPlayer[]
+  finished: boolean
+  winner: RulesPlayer | null
+  isDraw: boolean
+}
+
+export interface ConnectFourMove {
+  column: number
+}
+
+// Directions to scan from each disc: right, down, down-right, down-left
+const DIRECTIONS = [
+  [0, 1], [1, 0], [1, 1], [1, -1],
+]
+
+function checkWinner(board: (number | null)[][]): number | null {
+  for (let row = 0; row < CONNECT_FOUR_ROWS; row++) {
+    for (let col = 0; col < CONNECT_FOUR_COLUMNS; col++) {
+      const player = board[row][col]
+      if (player === null) continue
+      for (const [dRow, dCol] of DIRECTIONS) {
+        let count = 1
+        while (count < 4 && board[row + dRow * count]?.[col + dCol * count] === player) {
+          count++
+        }
+        if (count === 4) return player
+      }
+    }
+  }
+  return null
+}
+
+export const connectFourRules: GameRules<ConnectFourState, ConnectFourMove> = {
+  initialState(players: RulesPlayer[]): ConnectFourState {
+    return {
+      board: Array(CONNECT_FOUR_ROWS).fill(null).map(() => Array(CONNECT_FOUR_COLUMNS).fill(null)),
+      currentPlayer: 0,
+      players,
+      finished: false,
+      winner: null,
+      isDraw: false,
+    }
+  },
+
+  validateMove(state: ConnectFourState, userId: string, move: ConnectFourMove): MoveValidation {
+    const { column } = move
+    if (state.finished) {
+      return { valid: false, error: "Game is finished" }
+    }
+    const playerIndex = state.players.findIndex((p) => p.userId === userId)
+    if (playerIndex !== state.currentPlayer) {
+      return { valid: false, error: "Not your turn" }
+    }
+    if (!Number.isInteger(column) || column < 0 || column >= CONNECT_FOUR_COLUMNS) {
+      return { valid: false, error: "Invalid column" }
+    }
+    if (state.board[0][column] !== null) {
+      return { valid: false, error: "Column is full" }
+    }
+    return { valid: true }
+  },
+
+  applyMove(state: ConnectFourState, userId: string, move: ConnectFourMove): ConnectFourState {
+    const board = state.board.map((row) => [...row])
+    // Find the lowest empty row in the column
+    for (let row = CONNECT_FOUR_ROWS - 1; row >= 0; row--) {
+      if (board[row][move.column] === null) {
+        board[row][move.column] = state.currentPlayer
+        break
+      }
+    }
+
+    const winner = checkWinner(board)
+    if (winner !== null) {
+      return { ...state, board, finished: true, winner: state.players[winner], isDraw: false }
+    }
+    if (board[0].every((cell) => cell !== null)) {
+      return { ...state, board, finished: true, winner: null, isDraw: true }
+    }
+    return { ...state, board, currentPlayer: (state.currentPlayer + 1) % state.players.length }
+  },
+
+  result(state: ConnectFourState): GameResult {
+    if (!state.finished) return { finished: false }
+    return {
+      finished: true,
+      winnerIds: state.winner ? [state.winner.userId] : [],
+      isDraw: state.isDraw,
+    }
+  },
+
+  legalMoves(state: ConnectFourState, userId: string): ConnectFourMove[] {
+    if (state.finished || state.players[state.currentPlayer]?.userId !== userId) return []
+    const moves: ConnectFourMove[] = []
+    for (let column = 0; column < CONNECT_FOUR_COLUMNS; column++) {
+      if (state.board[0][column] === null) moves.push({ column })
+    }
+    return moves
+  },
+
+  currentPlayerId(state: ConnectFourState): string | null {
+    if (state.finished) return null
+    return state.players[state.currentPlayer].userId
+  },
+
+  forfeit(state: ConnectFourState, loserId: string): ConnectFourState {
+    return {
+      ...state,
+      finished: true,
+      winner: state.players.find((p) => p.userId !== loserId) || null,
+      isDraw: false,
+    }
+  },
+}
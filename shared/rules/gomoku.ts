@@ -0,0 +1,233 @@
+import type { GameResult, GameRules, MoveValidation, RoomOptions, RulesPlayer } from "./types"
+
+export const GOMOKU_SIZE = 15
+
+export type GomokuOpening = "standard" | "swap2"
+
+export interface GomokuOptions {
+  // Only a line of exactly five wins; six or more in a row (an overline) does not
+  exactlyFive: boolean
+  opening: GomokuOpening
+}
+
+export const GOMOKU_DEFAULT_OPTIONS: GomokuOptions = { exactlyFive: false, opening: "standard" }
+
+// Stone colors: 0 is black, 1 is white. Black always places the first stone.
+export const GOMOKU_COLOR_NAMES = ["Black", "White"]
+
+// swap2: the first player places three stones, then the second player either picks a color
+// or places two more and leaves the choice to the first player
+export type GomokuPhase = "opening" | "swap" | "opening-extra" | "pick-color" | "play"
+
+export type GomokuChoice = "black" | "white" | "place-two"
+
+export type GomokuMove = { row: number; col: number } | { choice: GomokuChoice }
+
+export interface GomokuLastMove {
+  row: number
+  col: number
+  color: number
+}
+
+export interface GomokuState {
+  board: (number | null)[][]
+  players: RulesPlayer[]
+  // Index of the player who acts next, in any phase
+  currentPlayer: number
+  // Stone color per player index; null until the swap2 opening settles who plays which
+  colors: number[] | null
+  options: GomokuOptions
+  phase: GomokuPhase
+  stones: number
+  finished: boolean
+  winner: RulesPlayer | null
+  isDraw: boolean
+  lastMove: GomokuLastMove | null
+  winningLine: [number, number][] | null
+}
+
+// Colors of the opening stones by placement order: three by the first player, two more by the second
+const OPENING_COLORS = [0, 0, 1, 0, 1]
+
+const DIRECTIONS = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+]
+
+function isPlacement(move: GomokuMove): move is { row: number; col: number } {
+  return !("choice" in move)
+}
+
+// Colors alternate from black once play starts, so the stone count says whose color is next
+function colorToPlace(state: GomokuState): number {
+  return state.phase === "play" ? state.stones % 2 : OPENING_COLORS[state.stones]
+}
+
+function choicesFor(state: GomokuState): GomokuChoice[] {
+  if (state.phase === "swap") return ["black", "white", "place-two"]
+  if (state.phase === "pick-color") return ["black", "white"]
+  return []
+}
+
+// The winning line through the stone just placed on (row, col), if it made one. Only the
+// four lines through the new stone can have changed, so this never scans the whole board.
+function lineThrough(board: (number | null)[][], row: number, col: number, exactlyFive: boolean): [number, number][] | null {
+  const color = board[row][col]
+  for (const [dRow, dCol] of DIRECTIONS) {
+    const line: [number, number][] = [[row, col]]
+    for (const sign of [1, -1]) {
+      let r = row + dRow * sign
+      let c = col + dCol * sign
+      while (board[r]?.[c] === color) {
+        line.push([r, c])
+        r += dRow * sign
+        c += dCol * sign
+      }
+    }
+    if (exactlyFive ? line.length === 5 : line.length >= 5) {
+      return line.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+    }
+  }
+  return null
+}
+
+function normalizeOptions(options: RoomOptions = {}): GomokuOptions {
+  return {
+    exactlyFive: options.exactlyFive === true,
+    opening: options.opening === "swap2" ? "swap2" : "standard",
+  }
+}
+
+export const gomokuRules: GameRules<GomokuState, GomokuMove> = {
+  initialState(players: RulesPlayer[], options?: RoomOptions): GomokuState {
+    const gomokuOptions = normalizeOptions(options)
+    const swap2 = gomokuOptions.opening === "swap2"
+    return {
+      board: Array(GOMOKU_SIZE).fill(null).map(() => Array(GOMOKU_SIZE).fill(null)),
+      players,
+      currentPlayer: 0,
+      colors: swap2 ? null : [0, 1],
+      options: gomokuOptions,
+      phase: swap2 ? "opening" : "play",
+      stones: 0,
+      finished: false,
+      winner: null,
+      isDraw: false,
+      lastMove: null,
+      winningLine: null,
+    }
+  },
+
+  validateMove(state: GomokuState, userId: string, move: GomokuMove): MoveValidation {
+    if (state.finished) {
+      return { valid: false, error: "Game is finished" }
+    }
+    if (state.players[state.currentPlayer]?.userId !== userId) {
+      return { valid: false, error: "Not your turn" }
+    }
+    if (!move || typeof move !== "object") {
+      return { valid: false, error: "Invalid move" }
+    }
+
+    const choices = choicesFor(state)
+    if (!isPlacement(move)) {
+      if (!choices.includes(move.choice)) {
+        return { valid: false, error: "Nothing to choose right now" }
+      }
+      return { valid: true }
+    }
+    if (choices.length > 0) {
+      return { valid: false, error: "Choose a color first" }
+    }
+
+    const { row, col } = move
+    if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || row >= GOMOKU_SIZE || col < 0 || col >= GOMOKU_SIZE) {
+      return { valid: false, error: "Invalid point" }
+    }
+    if (state.board[row][col] !== null) {
+      return { valid: false, error: "Point is taken" }
+    }
+    return { valid: true }
+  },
+
+  applyMove(state: GomokuState, userId: string, move: GomokuMove): GomokuState {
+    if (!isPlacement(move)) {
+      if (move.choice === "place-two") {
+        return { ...state, phase: "opening-extra" }
+      }
+      // The chooser takes the named color; with a stone count of 3 or 5, white is next to move
+      const chooserColor = move.choice === "black" ? 0 : 1
+      const colors = state.currentPlayer === 0 ? [chooserColor, 1 - chooserColor] : [1 - chooserColor, chooserColor]
+      return { ...state, colors, phase: "play", currentPlayer: colors.indexOf(state.stones % 2) }
+    }
+
+    const board = state.board.map((row) => [...row])
+    const color = colorToPlace(state)
+    board[move.row][move.col] = color
+    const next: GomokuState = {
+      ...state,
+      board,
+      stones: state.stones + 1,
+      lastMove: { row: move.row, col: move.col, color },
+    }
+
+    if (state.phase === "opening") {
+      return next.stones === 3 ? { ...next, phase: "swap", currentPlayer: 1 } : next
+    }
+    if (state.phase === "opening-extra") {
+      return next.stones === 5 ? { ...next, phase: "pick-color", currentPlayer: 0 } : next
+    }
+
+    const winningLine = lineThrough(board, move.row, move.col, state.options.exactlyFive)
+    if (winningLine) {
+      return { ...next, finished: true, winner: state.players[state.currentPlayer], winningLine }
+    }
+    if (next.stones === GOMOKU_SIZE * GOMOKU_SIZE) {
+      return { ...next, finished: true, isDraw: true }
+    }
+    return { ...next, currentPlayer: state.colors!.indexOf(next.stones % 2) }
+  },
+
+  result(state: GomokuState): GameResult {
+    if (!state.finished) return { finished: false }
+    return {
+      finished: true,
+      winnerIds: state.winner ? [state.winner.userId] : [],
+      isDraw: state.isDraw,
+    }
+  },
+
+  legalMoves(state: GomokuState, userId: string): GomokuMove[] {
+    if (state.finished || state.players[state.currentPlayer]?.userId !== userId) return []
+    const choices = choicesFor(state)
+    if (choices.length > 0) return choices.map((choice) => ({ choice }))
+    const moves: GomokuMove[] = []
+    state.board.forEach((row, rowIndex) =>
+      row.forEach((cell, colIndex) => {
+        if (cell === null) moves.push({ row: rowIndex, col: colIndex })
+      })
+    )
+    return moves
+  },
+
+  currentPlayerId(state: GomokuState): string | null {
+    if (state.finished) return null
+    return state.players[state.currentPlayer].userId
+  },
+
+  forfeit(state: GomokuState, loserId: string): GomokuState {
+    return {
+      ...state,
+      finished: true,
+      winner: state.players.find((p) => p.userId !== loserId) || null,
+      isDraw: false,
+    }
+  },
+}
+
+// Color the stone placed next will be, in any phase; null while a color choice is pending
+export function gomokuColorToPlace(state: GomokuState): number | null {
+  return choicesFor(state).length > 0 ? null : colorToPlace(state)
+}
@@ -0,0 +1,178 @@
+import type { GameResult, GameRules, MoveValidation, RulesPlayer } from "./types"
+
+export const OTHELLO_SIZE = 8
+
+// Cells hold the index of the player whose disc is showing; player 0 plays black and moves first
+export interface OthelloState {
+  board: (number | null)[][]
+  currentPlayer: number
+  players: RulesPlayer[]
+  finished: boolean
+  winner: RulesPlayer | null
+  isDraw: boolean
+  lastMove: OthelloLastMove | null
+  // Index of the player whose turn was skipped after the last move because they could not move
+  passed: number | null
+}
+
+export interface OthelloMove {
+  row: number
+  col: number
+}
+
+export interface OthelloLastMove extends OthelloMove {
+  player: number
+  flipped: [number, number][]
+}
+
+const DIRECTIONS = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1], [0, 1],
+  [1, -1], [1, 0], [1, 1],
+]
+
+// Discs a disc placed on (row, col) by player would flip, along all eight directions
+function flipsFor(board: (number | null)[][], player: number, row: number, col: number): [number, number][] {
+  if (board[row][col] !== null) return []
+  const flips: [number, number][] = []
+  for (const [dRow, dCol] of DIRECTIONS) {
+    const line: [number, number][] = []
+    let r = row + dRow
+    let c = col + dCol
+    while (board[r]?.[c] !== undefined && board[r][c] !== null && board[r][c] !== player) {
+      line.push([r, c])
+      r += dRow
+      c += dCol
+    }
+    if (line.length > 0 && board[r]?.[c] === player) {
+      flips.push(...line)
+    }
+  }
+  return flips
+}
+
+function movesFor(board: (number | null)[][], player: number): OthelloMove[] {
+  const moves: OthelloMove[] = []
+  for (let row = 0; row < OTHELLO_SIZE; row++) {
+    for (let col = 0; col < OTHELLO_SIZE; col++) {
+      if (flipsFor(board, player, row, col).length > 0) moves.push({ row, col })
+    }
+  }
+  return moves
+}
+
+// Discs on the board per player index
+export function othelloDiscCounts(state: OthelloState): number[] {
+  const counts = state.players.map(() => 0)
+  for (const cell of state.board.flat()) {
+    if (cell !== null) counts[cell]++
+  }
+  return counts
+}
+
+export const othelloRules: GameRules<OthelloState, OthelloMove> = {
+  initialState(players: RulesPlayer[]): OthelloState {
+    const board: (number | null)[][] = Array(OTHELLO_SIZE).fill(null).map(() => Array(OTHELLO_SIZE).fill(null))
+    const middle = OTHELLO_SIZE / 2
+    board[middle - 1][middle - 1] = 1
+    board[middle - 1][middle] = 0
+    board[middle][middle - 1] = 0
+    board[middle][middle] = 1
+    return {
+      board,
+      currentPlayer: 0,
+      players,
+      finished: false,
+      winner: null,
+      isDraw: false,
+      lastMove: null,
+      passed: null,
+    }
+  },
+
+  validateMove(state: OthelloState, userId: string, move: OthelloMove): MoveValidation {
+    const { row, col } = move
+    if (state.finished) {
+      return { valid: false, error: "Game is finished" }
+    }
+    const playerIndex = state.players.findIndex((p) => p.userId === userId)
+    if (playerIndex !== state.currentPlayer) {
+      return { valid: false, error: "Not your turn" }
+    }
+    if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || row >= OTHELLO_SIZE || col < 0 || col >= OTHELLO_SIZE) {
+      return { valid: false, error: "Invalid square" }
+    }
+    if (state.board[row][col] !== null) {
+      return { valid: false, error: "Square is taken" }
+    }
+    if (flipsFor(state.board, playerIndex, row, col).length === 0) {
+      return { valid: false, error: "A move must flip at least one disc" }
+    }
+    return { valid: true }
+  },
+
+  applyMove(state: OthelloState, userId: string, move: OthelloMove): OthelloState {
+    const board = state.board.map((row) => [...row])
+    const player = state.currentPlayer
+    const flipped = flipsFor(board, player, move.row, move.col)
+    board[move.row][move.col] = player
+    for (const [row, col] of flipped) {
+      board[row][col] = player
+    }
+
+    const next: OthelloState = {
+      ...state,
+      board,
+      lastMove: { ...move, player, flipped },
+      passed: null,
+    }
+
+    // A player without a legal move passes automatically; when neither can move the game is over
+    const opponent = (player + 1) % state.players.length
+    if (movesFor(board, opponent).length > 0) {
+      return { ...next, currentPlayer: opponent }
+    }
+    if (movesFor(board, player).length > 0) {
+      return { ...next, currentPlayer: player, passed: opponent }
+    }
+
+    const counts = othelloDiscCounts(next)
+    const isDraw = counts[0] === counts[1]
+    return {
+      ...next,
+      finished: true,
+      isDraw,
+      winner: isDraw ? null : state.players[counts[0] > counts[1] ? 0 : 1],
+    }
+  },
+
+  result(state: OthelloState): GameResult {
+    if (!state.finished) return { finished: false }
+    const counts = othelloDiscCounts(state)
+    return {
+      finished: true,
+      winnerIds: state.winner ? [state.winner.userId] : [],
+      isDraw: state.isDraw,
+      scores: Object.fromEntries(state.players.map((player, index) => [player.userId, counts[index]])),
+    }
+  },
+
+  legalMoves(state: OthelloState, userId: string): OthelloMove[] {
+    if (state.finished || state.players[state.currentPlayer]?.userId !== userId) return []
+    return movesFor(state.board, state.currentPlayer)
+  },
+
+  currentPlayerId(state: OthelloState): string | null {
+    if (state.finished) return null
+    return state.players[state.currentPlayer].userId
+  },
+
+  forfeit(state: OthelloState, loserId: string): OthelloState {
+    return {
+      ...state,
+      finished: true,
+      winner: state.players.find((p) => p.userId !== loserId) || null,
+      isDraw: false,
+    }
+  },
+}
@@ -0,0 +1,106 @@
+import type { GameResult, GameRules, MoveValidation, RulesPlayer } from "./types"
+
+export type TicTacToeMark = "X" | "O"
+
+export interface TicTacToeState {
+  board: (TicTacToeMark | null)[]
+  currentPlayer: TicTacToeMark
+  winner: TicTacToeMark | "draw" | null
+  playerX: string
+  playerO: string
+  moves: number
+}
+
+export interface TicTacToeMove {
+  index: number
+}
+
+const LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
+  [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
+  [0, 4, 8], [2, 4, 6], // diagonals
+]
+
+function checkWinner(board: (TicTacToeMark | null)[]): TicTacToeMark | null {
+  for (const [a, b, c] of LINES) {
+    const mark = board[a]
+    if (mark && mark === board[b] && mark === board[c]) {
+      return mark
+    }
+  }
+  return null
+}
+
+function markOf(state: TicTacToeState, userId: string): TicTacToeMark | null {
+  if (state.playerX === userId) return "X"
+  if (state.playerO === userId) return "O"
+  return null
+}
+
+export const ticTacToeRules: GameRules<TicTacToeState, TicTacToeMove> = {
+  initialState(players: RulesPlayer[]): TicTacToeState {
+    return {
+      board: Array(9).fill(null),
+      currentPlayer: "X",
+      winner: null,
+      playerX: players[0].userId,
+      playerO: players[1].userId,
+      moves: 0,
+    }
+  },
+
+  validateMove(state: TicTacToeState, userId: string, move: TicTacToeMove): MoveValidation {
+    const { index } = move
+    if (!Number.isInteger(index) || index < 0 || index > 8) {
+      return { valid: false, error: "Invalid cell" }
+    }
+    if (state.board[index] !== null) {
+      return { valid: false, error: "Cell already occupied" }
+    }
+    if (state.winner) {
+      return { valid: false, error: "Game already finished" }
+    }
+    if (markOf(state, userId) !== state.currentPlayer) {
+      return { valid: false, error: "Not your turn" }
+    }
+    return { valid: true }
+  },
+
+  applyMove(state: TicTacToeState, userId: string, move: TicTacToeMove): TicTacToeState {
+    const board = [...state.board]
+    board[move.index] = state.currentPlayer
+    const winner = checkWinner(board)
+    const isDraw = !winner && board.every((cell) => cell !== null)
+    return {
+      ...state,
+      board,
+      currentPlayer: state.currentPlayer === "X" ? "O" : "X",
+      winner: winner || (isDraw ? "draw" : null),
+      moves: state.moves + 1,
+    }
+  },
+
+  result(state: TicTacToeState): GameResult {
+    if (!state.winner) return { finished: false }
+    if (state.winner === "draw") return { finished: true, winnerIds: [], isDraw: true }
+    return { finished: true, winnerIds: [state.winner === "X" ? state.playerX : state.playerO], isDraw: false }
+  },
+
+  legalMoves(state: TicTacToeState, userId: string): TicTacToeMove[] {
+    if (state.winner || markOf(state, userId) !== state.currentPlayer) return []
+    const moves: TicTacToeMove[] = []
+    state.board.forEach((cell, index) => {
+      if (cell === null) moves.push({ index })
+    })
+    return moves
+  },
+
+  currentPlayerId(state: TicTacToeState): string | null {
+    if (state.winner) return null
+    return state.currentPlayer === "X" ? state.playerX : state.playerO
+  },
+
+  forfeit(state: TicTacToeState, loserId: string): TicTacToeState {
+    return { ...state, winner: state.playerX === loserId ? "O" : "X" }
+  },
+}
@@ -0,0 +1,39 @@
+// Shared game rules, used by the backend games (compiled to shared/dist) and by the
+// frontend renderers for optimistic moves and move highlighting. Rule modules must stay
+// free of runtime imports so the same source runs under Node and Next.js.
+
+export interface RulesPlayer {
+  userId: string
+  username: string
+}
+
+export type MoveValidation = { valid: true } | { valid: false; error: string }
+
+export type GameResult =
+  | { finished: false }
+  // placements ([[first ids], [second ids], ...]) is optional and only needed for 3+ players;
+  // scores (userId -> points) is for games decided by a count, shown on the result screen
+  | {
+      finished: true
+      winnerIds: string[]
+      isDraw: boolean
+      placements?: string[][]
+      scores?: { [userId: string]: number }
+    }
+
+// Settings picked when a private room is created, e.g. { opening: "swap2" }
+export type RoomOptions = { [key: string]: boolean | string }
+
+export interface GameRules<TState, TMove> {
+  // options are the room's settings; games without any ignore them
+  initialState(players: RulesPlayer[], options?: RoomOptions): TState
+  validateMove(state: TState, userId: string, move: TMove): MoveValidation
+  applyMove(state: TState, userId: string, move: TMove): TState
+  result(state: TState): GameResult
+  // Moves userId may make right now; empty when it is not their turn or the game is over
+  legalMoves(state: TState, userId: string): TMove[]
+  // Player on turn, or null once the game is over
+  currentPlayerId(state: TState): string | null
+  // Finished state with loserId losing (leaving, running out of time)
+  forfeit(state: TState, loserId: string): TState
+}
@@ -0,0 +1,141 @@
+import type { GameResult, GameRules, MoveValidation, RulesPlayer } from "./types"
+import type { TicTacToeMark } from "./tictactoe"
+
+// Nine tic-tac-toe boards in a 3x3 meta-board. Boards and the cells inside each are numbered
+// 0-8 row by row; the cell a move is played in names the board the opponent must play in next.
+export interface UltimateTicTacToeState {
+  boards: (TicTacToeMark | null)[][]
+  // Meta-board: who took each board, "draw" for a full board nobody won
+  boardWinners: (TicTacToeMark | "draw" | null)[]
+  // Board the next move must be played in; null lets the player pick any undecided board
+  activeBoard: number | null
+  currentPlayer: TicTacToeMark
+  winner: TicTacToeMark | "draw" | null
+  // Meta-board line that won the game
+  winningLine: number[] | null
+  playerX: string
+  playerO: string
+  lastMove: UltimateTicTacToeMove | null
+  moves: number
+}
+
+export interface UltimateTicTacToeMove {
+  board: number
+  cell: number
+}
+
+const LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
+  [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
+  [0, 4, 8], [2, 4, 6], // diagonals
+]
+
+function winningLineOf(cells: (TicTacToeMark | "draw" | null)[]): number[] | null {
+  for (const line of LINES) {
+    const [a, b, c] = line
+    const mark = cells[a]
+    if (mark && mark !== "draw" && mark === cells[b] && mark === cells[c]) {
+      return line
+    }
+  }
+  return null
+}
+
+function markOf(state: UltimateTicTacToeState, userId: string): TicTacToeMark | null {
+  if (state.playerX === userId) return "X"
+  if (state.playerO === userId) return "O"
+  return null
+}
+
+// Boards the player on turn may play in
+export function playableBoards(state: UltimateTicTacToeState): number[] {
+  if (state.winner) return []
+  if (state.activeBoard !== null) return [state.activeBoard]
+  return state.boardWinners.flatMap((winner, board) => (winner === null ? [board] : []))
+}
+
+export const ultimateTicTacToeRules: GameRules<UltimateTicTacToeState, UltimateTicTacToeMove> = {
+  initialState(players: RulesPlayer[]): UltimateTicTacToeState {
+    return {
+      boards: Array(9).fill(null).map(() => Array(9).fill(null)),
+      boardWinners: Array(9).fill(null),
+      activeBoard: null,
+      currentPlayer: "X",
+      winner: null,
+      winningLine: null,
+      playerX: players[0].userId,
+      playerO: players[1].userId,
+      lastMove: null,
+      moves: 0,
+    }
+  },
+
+  validateMove(state: UltimateTicTacToeState, userId: string, move: UltimateTicTacToeMove): MoveValidation {
+    const { board, cell } = move
+    if (!Number.isInteger(board) || board < 0 || board > 8 || !Number.isInteger(cell) || cell < 0 || cell > 8) {
+      return { valid: false, error: "Invalid cell" }
+    }
+    if (state.winner) {
+      return { valid: false, error: "Game already finished" }
+    }
+    if (markOf(state, userId) !== state.currentPlayer) {
+      return { valid: false, error: "Not your turn" }
+    }
+    if (!playableBoards(state).includes(board)) {
+      return { valid: false, error: state.activeBoard !== null ? "You must play in the highlighted board" : "That board is already decided" }
+    }
+    if (state.boards[board][cell] !== null) {
+      return { valid: false, error: "Cell already occupied" }
+    }
+    return { valid: true }
+  },
+
+  applyMove(state: UltimateTicTacToeState, userId: string, move: UltimateTicTacToeMove): UltimateTicTacToeState {
+    const boards = state.boards.map((cells) => [...cells])
+    boards[move.board][move.cell] = state.currentPlayer
+
+    const boardWinners = [...state.boardWinners]
+    if (winningLineOf(boards[move.board])) {
+      boardWinners[move.board] = state.currentPlayer
+    } else if (boards[move.board].every((cell) => cell !== null)) {
+      boardWinners[move.board] = "draw"
+    }
+
+    const winningLine = winningLineOf(boardWinners)
+    const isDraw = !winningLine && boardWinners.every((winner) => winner !== null)
+    return {
+      ...state,
+      boards,
+      boardWinners,
+      // The opponent is sent to the board matching the cell just played, unless it is decided
+      activeBoard: boardWinners[move.cell] === null ? move.cell : null,
+      currentPlayer: state.currentPlayer === "X" ? "O" : "X",
+      winner: winningLine ? state.currentPlayer : isDraw ? "draw" : null,
+      winningLine,
+      lastMove: move,
+      moves: state.moves + 1,
+    }
+  },
+
+  result(state: UltimateTicTacToeState): GameResult {
+    if (!state.winner) return { finished: false }
+    if (state.winner === "draw") return { finished: true, winnerIds: [], isDraw: true }
+    return { finished: true, winnerIds: [state.winner === "X" ? state.playerX : state.playerO], isDraw: false }
+  },
+
+  legalMoves(state: UltimateTicTacToeState, userId: string): UltimateTicTacToeMove[] {
+    if (state.winner || markOf(state, userId) !== state.currentPlayer) return []
+    return playableBoards(state).flatMap((board) =>
+      state.boards[board].flatMap((cell, index) => (cell === null ? [{ board, cell: index }] : []))
+    )
+  },
+
+  currentPlayerId(state: UltimateTicTacToeState): string | null {
+    if (state.winner) return null
+    return state.currentPlayer === "X" ? state.playerX : state.playerO
+  },
+
+  forfeit(state: UltimateTicTacToeState, loserId: string): UltimateTicTacToeState {
+    return { ...state, winner: state.playerX === loserId ? "O" : "X" }
+  },
+}